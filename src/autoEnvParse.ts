@@ -1,3 +1,296 @@
+import { CoercionError, EnvIssue, EnvValidationError } from './errors';
+import { Validator, validators } from './validators';
+import { PropertyKeys, PropertyValue } from './types';
+import { Provenance, ProvenanceSource } from './provenance';
+import { describeExpected, describeSchema, InferSchemaOutput, SchemaNode, StandardSchemaV1 } from './schema';
+
+/**
+ * How parse problems (invalid numbers, malformed JSON, failed validators) are handled.
+ *
+ * - `'collect'` - Gather every issue and throw a single {@link EnvValidationError} after parsing
+ * - `'throw'` - Throw an {@link EnvValidationError} on the first issue
+ * - `'warn'` - Log each issue as a warning and keep the default value
+ */
+export type ErrorMode = 'collect' | 'throw' | 'warn';
+
+/**
+ * Additional checks applied in strict mode.
+ */
+export interface StrictOptions {
+    /**
+     * Require whole numbers for properties whose default value is an integer (e.g., 3000).
+     * @default false
+     */
+    integers?: boolean;
+
+    /**
+     * Reject integers outside Number.MIN_SAFE_INTEGER..Number.MAX_SAFE_INTEGER.
+     * @default false
+     */
+    safeIntegers?: boolean;
+}
+
+/**
+ * Unit of a parsed duration: milliseconds, seconds, minutes, hours or days.
+ */
+export type DurationUnit = 'ms' | 's' | 'm' | 'h' | 'd';
+
+/**
+ * Class constructor used as a key for custom types (e.g., `Decimal`, `Money`).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type TypeConstructor<T = unknown> = abstract new (...args: any[]) => T;
+
+/**
+ * Conversion of environment variable strings to a custom type.
+ *
+ * @example
+ * ```typescript
+ * const money: TypeCoercer<Money> = {
+ *     parse: value => Money.parse(value),   // throw to reject a value
+ *     serialize: value => value.format(),
+ *     describe: 'amount'                    // 'Invalid amount value for APP_PRICE: "abc"'
+ * };
+ * ```
+ */
+export interface TypeCoercer<T> {
+    /**
+     * Convert a raw value. Throwing any error reports the value as invalid.
+     */
+    parse(value: string): T;
+
+    /**
+     * Format a value for display, e.g., in `Provenance.toTable()`.
+     * @default String(value)
+     */
+    serialize?(value: T): string;
+
+    /**
+     * Type name used in error messages.
+     * @default The constructor name
+     */
+    describe?: string;
+}
+
+/**
+ * Type declared for a property whose default cannot express it (`null` or `undefined`):
+ * a built-in type name or a registered constructor.
+ */
+export type TypeHint = 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'url' | 'regexp' | TypeConstructor;
+
+/**
+ * Format of delimiter-separated list values (e.g., `APP_HOSTS=a.com,b.com`).
+ */
+export interface ListFormat {
+    /**
+     * String between entries.
+     * @default ','
+     */
+    separator?: string;
+
+    /**
+     * Trim whitespace around unquoted entries.
+     * @default true
+     */
+    trim?: boolean;
+
+    /**
+     * Handling of empty entries (`'a,,b'`): drop them, keep them as empty strings,
+     * or reject the whole value. Quoted empty entries (`""`) are always kept.
+     * @default 'skip'
+     */
+    empty?: 'skip' | 'keep' | 'error';
+}
+
+/**
+ * List syntax for arrays of primitives and Sets: a global format plus formats for
+ * individual properties.
+ */
+export interface ListOptions extends ListFormat {
+    /**
+     * Formats by property path, overriding the global settings.
+     * Use dot-notation for nested objects and `*` for every array element.
+     */
+    properties?: Record<string, ListFormat>;
+}
+
+/**
+ * Options for {@link AutoEnvParse.coerceValue}.
+ */
+export interface CoerceOptions {
+    /**
+     * Reject malformed values instead of coercing them loosely. Throws a CoercionError
+     * for trailing garbage ('8080abc'), empty strings, non-finite numbers and unrecognized booleans.
+     */
+    strict?: boolean;
+
+    /**
+     * Require a whole number (strict mode only).
+     */
+    integer?: boolean;
+
+    /**
+     * Require an integer within the safe integer range (strict mode only).
+     */
+    safeInteger?: boolean;
+}
+
+/**
+ * Logger used for warnings and debug tracing.
+ * Compatible with `console` and most structured loggers (pino, winston, bunyan).
+ */
+export interface Logger {
+    debug(message: string): void;
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+}
+
+/**
+ * Severity of a reported issue. Only relevant when `errorMode` is not set:
+ * warnings are logged, errors are collected and thrown after parsing.
+ */
+export type IssueSeverity = 'error' | 'warning';
+
+/**
+ * Context passed to override functions as their third argument.
+ */
+export interface OverrideContext {
+    /**
+     * Merged environment variables from all configured sources.
+     */
+    env: Record<string, string>;
+
+    /**
+     * Property path of the overridden property (e.g., 'port').
+     */
+    path: string;
+
+    /**
+     * Logger configured for this parse.
+     */
+    logger: Logger;
+
+    /**
+     * Whether strict coercion is enabled for this parse.
+     */
+    strict: boolean;
+
+    /**
+     * Report a problem through the configured error mode.
+     *
+     * @param issue - Raw value, expected type and message describing the problem
+     * @param severity - 'error' (default) for failed validations, 'warning' for recoverable problems
+     */
+    report(issue: Pick<EnvIssue, 'value' | 'expected' | 'message'>, severity?: IssueSeverity): void;
+}
+
+/**
+ * Custom parser function for a single property, used with `overrides`.
+ *
+ * @param target - Object being populated
+ * @param envVarName - Environment variable name for the property
+ * @param context - Parsing context (merged env, property path, issue reporting)
+ */
+export type OverrideFn<T> = (target: T, envVarName: string, context?: OverrideContext) => void;
+
+/**
+ * Override functions keyed by property name. Unlike a Map, keys are checked against
+ * the properties of the configuration object.
+ *
+ * @example
+ * ```typescript
+ * const overrides: OverrideRecord<typeof config> = {
+ *     env: AutoEnvParse.enumValidator('env', ['dev', 'prod'])
+ * };
+ * ```
+ */
+export type OverrideRecord<T> = { [K in PropertyKeys<T>]?: OverrideFn<T> };
+
+/**
+ * A failed cross-field validation, returned from the `validate` option or a class's `validateEnv()` method.
+ */
+export interface ValidationFailure {
+    /**
+     * Property path the failure relates to (e.g., 'certPath' or 'pool.min').
+     * Used to find the environment variable name and raw value for the report.
+     */
+    path?: string;
+
+    /**
+     * Human-readable error message.
+     */
+    message: string;
+}
+
+/**
+ * Return value of a cross-field validation: nothing when valid, otherwise one or more
+ * failures given as messages or {@link ValidationFailure} objects.
+ */
+export type ValidationResult = void | undefined | string | ValidationFailure | Array<string | ValidationFailure>;
+
+/**
+ * How environment variables with the configured prefix that match no property are handled.
+ *
+ * - `'ignore'` - Do not check
+ * - `'warn'` - Log a warning for each unknown variable
+ * - `'error'` - Report each unknown variable as a validation error through `errorMode`
+ */
+export type UnknownVariablesMode = 'ignore' | 'warn' | 'error';
+
+/**
+ * How environment variable names are built from the prefix and property path.
+ *
+ * - `'snake'` - SCREAMING_SNAKE_CASE segments joined by `_` (`APP_DB_POOL_SIZE`)
+ * - `'double-underscore'` - Segments joined by `__` (`APP__DB__POOL_SIZE`), as in .NET and Spring
+ * - `'dot'` - Segments joined by `.` (`APP.DB.POOL_SIZE`)
+ * - A function that receives the path segments (the prefix, then property keys, array
+ *   indices and record keys) and returns the name. To discover array indices and record keys,
+ *   the function is also called with placeholder segments of one Unicode private use character
+ *   (U+E000-U+F8FF); it must keep them unchanged, or parsing throws
+ */
+export type NamingStrategy = 'snake' | 'double-underscore' | 'dot' | ((path: string[]) => string);
+
+/**
+ * Result of {@link AutoEnvParse.safeParse}.
+ */
+export interface SafeParseResult<T> {
+    /**
+     * True when no issues were found.
+     */
+    success: boolean;
+
+    /**
+     * The populated object. Properties with issues keep their default values.
+     */
+    data: T;
+
+    /**
+     * All issues found during parsing.
+     */
+    issues: EnvIssue[];
+
+    /**
+     * Where each property's value came from (only with `provenance: true`).
+     */
+    provenance?: Provenance;
+}
+
+/**
+ * Result of {@link AutoEnvParse.parse} with `provenance: true`.
+ */
+export interface ProvenanceResult<T> {
+    /**
+     * The populated object.
+     */
+    data: T;
+
+    /**
+     * Where each property's value came from, keyed by property path.
+     */
+    provenance: Provenance;
+}
+
 /**
  * Options for parsing environment variables.
  */
@@ -8,412 +301,2465 @@ export interface ParseOptions<T = unknown> {
      */
     prefix?: string;
 
+    /**
+     * How environment variable names are built from the prefix and property path.
+     * With the default `'snake'` strategy `APP_DB_POOL_SIZE` could mean `db.poolSize` or
+     * `dbPool.size`; `'double-underscore'` separates nesting levels with `__` instead.
+     *
+     * @default 'snake'
+     *
+     * @example
+     * ```typescript
+     * naming: 'double-underscore'                      // APP__DB__POOL_SIZE, APP__SERVERS__0__HOST
+     * naming: 'dot'                                    // APP.DB.POOL_SIZE
+     * naming: path => path.join('-').toLowerCase()     // app-db-poolsize
+     * ```
+     */
+    naming?: NamingStrategy;
+
     /**
      * Custom override functions for specific properties.
      * Map keys are property names, values are custom parser functions.
+     *
+     * A plain object can be used instead of a Map; its keys are type-checked
+     * against the properties of the configuration object.
      */
-    overrides?: Map<string, (target: T, envVarName: string) => void>;
+    overrides?: Map<string, OverrideFn<T>> | OverrideRecord<T>;
 
     /**
-     * Sources to load environment variables from, in priority order.
-     * First source has highest priority.
-     *
-     * Special keyword: 'env' means process.env
-     * Other strings are treated as file paths to load.
+     * How to handle invalid values and failed validations.
      *
-     * @default ['env', '.env']
+     * When not specified, malformed values (invalid numbers, invalid JSON, failed transforms)
+     * are logged as warnings, while failed validations (e.g., enumValidator) are collected
+     * and thrown together as an {@link EnvValidationError} after parsing.
      *
      * @example
      * ```typescript
-     * // Use only process.env (v2.0 behavior)
-     * sources: ['env']
-     *
-     * // Multiple files with priority
-     * sources: ['env', '.env.local', '.env']
-     *
-     * // Environment-specific
-     * sources: ['env', `.env.${process.env.NODE_ENV}`, '.env']
+     * // Report every broken variable at once
+     * AutoEnvParse.parse(config, { prefix: 'DB', errorMode: 'collect' });
      * ```
      */
-    sources?: Array<'env' | string>;
+    errorMode?: ErrorMode;
 
     /**
-     * Custom parser function for .env files.
-     * Receives file content as string, returns key-value pairs.
+     * Property paths that must be supplied by an environment variable.
+     * Missing (unset or empty) variables are reported together as validation errors.
      *
-     * If not provided, uses built-in lightweight parser that supports:
-     * - KEY=value format
-     * - Comments (# comment)
-     * - Basic quotes ("value" or 'value')
-     * - Empty lines
+     * Use dot-notation for nested objects and `*` for every array element.
      *
-     * For advanced features (multiline, variable expansion), provide dotenv.parse:
+     * @example
      * ```typescript
-     * import * as dotenv from 'dotenv';
-     * parse(config, { envFileParser: dotenv.parse })
+     * required: ['password', 'database.host', 'servers.*.host']
+     * // DB_PASSWORD, DB_DATABASE_HOST and DB_SERVERS_<n>_HOST must all be set
      * ```
-     *
-     * @param content - File content as string
-     * @returns Parsed key-value pairs
      */
-    envFileParser?: (content: string) => Record<string, string>;
-}
+    required?: string[];
 
-/**
- * Utility class for parsing environment variables and applying them to configuration objects.
- *
- * Provides automatic environment variable discovery and type coercion based on object structure.
- *
- * **Features:**
- * - Automatic type detection (primitives, arrays, objects)
- * - CamelCase to SNAKE_CASE conversion
- * - Type coercion (string, number, boolean)
- * - Nested object support with dot-notation
- * - Override system for custom parsing
- * - .env file loading with configurable sources
- *
- * @example
- * ```typescript
- * // Simple usage with prefix
- * const config = { host: 'localhost', port: 5432, ssl: false };
- * AutoEnvParse.parse(config, { prefix: 'DB' });
- * // Applies: DB_HOST, DB_PORT, DB_SSL
- *
- * // With .env files
- * AutoEnvParse.parse(config, {
- *   prefix: 'DB',
- *   sources: ['env', '.env.local', '.env']
- * });
- *
- * // With overrides
- * const overrides = new Map();
- * overrides.set('port', (obj, envVar) => {
- *     const value = process.env[envVar];
- *     if (value) {
- *         const port = parseInt(value, 10);
- *         if (port >= 1 && port <= 65535) {
- *             obj.port = port;
- *         }
- *     }
- * });
- * AutoEnvParse.parse(config, { prefix: 'DB', overrides });
- * ```
- */
-export class AutoEnvParse {
     /**
-     * Parse environment variables and create an instance from a class constructor.
+     * Cross-field validation, called with the fully populated object after all sources,
+     * nested objects and arrays have been applied.
      *
-     * @param classConstructor - Class constructor function with default values
-     * @param options - Parse options including prefix, overrides, sources, and envFileParser
-     * @returns New instance of the class populated from environment variables
+     * Return nothing when valid, or one or more failures (messages or `{ path, message }`).
+     * Thrown errors are reported as failures too. Failures are reported as validation
+     * errors through `errorMode`, together with all other issues. Validation is synchronous:
+     * a returned Promise, or any other value, throws a TypeError.
+     *
+     * Classes can implement the same check as a `validateEnv()` method, which runs first.
      *
      * @example
      * ```typescript
-     * class DbConfig { host = 'localhost'; port = 5432; }
-     * const config = AutoEnvParse.parse(DbConfig, {
-     *   prefix: 'DB',
-     *   sources: ['env', '.env.local', '.env']
-     * });
+     * validate: (config) => [
+     *     ...(config.ssl && !config.certPath ? [{ path: 'certPath', message: 'certPath is required when ssl is enabled' }] : []),
+     *     ...(config.poolMin > config.poolMax ? ['poolMin must not exceed poolMax'] : [])
+     * ]
      * ```
      */
-    static parse<T extends { new(): object }>(
-        classConstructor: T,
-        options?: ParseOptions<InstanceType<T>>
-    ): InstanceType<T>;
+    validate?: (config: T) => ValidationResult;
 
     /**
-     * Parse environment variables and apply them to a plain object.
+     * Detect environment variables that start with the prefix but match no property,
+     * such as a misspelled `DB_HSOT`. Each one is reported with a "did you mean" suggestion
+     * based on the names that were looked up. Requires a prefix.
      *
-     * @param target - Object to populate from environment variables
-     * @param options - Parse options including prefix, overrides, sources, and envFileParser
-     * @returns The populated object
+     * @default 'ignore'
      *
      * @example
      * ```typescript
-     * const config = AutoEnvParse.parse({ host: 'localhost', port: 5432 }, {
-     *   prefix: 'DB',
-     *   sources: ['env', '.env']
-     * });
+     * unknownVariables: 'error'
+     * // EnvValidationError: Unknown environment variable DB_HSOT (did you mean DB_HOST?)
      * ```
      */
-    static parse<T extends object>(
-        target: T,
-        options?: ParseOptions<T>
+    unknownVariables?: UnknownVariablesMode;
+
+    /**
+     * Track where every property's value came from: the environment variable, source file
+     * and line, raw value, how it was applied (own variable, JSON, dot-notation, override
+     * or default) and the final value.
+     *
+     * When enabled, parse() returns `{ data, provenance }` instead of the populated object.
+     *
+     * @default false
+     *
+     * @example
+     * ```typescript
+     * const { data, provenance } = AutoEnvParse.parse(config, { prefix: 'DB', provenance: true });
+     * console.log(provenance.toTable());
+     * ```
+     */
+    provenance?: boolean;
+
+    /**
+     * Properties holding human-readable durations (`'30s'`, `'5m'`, `'1h30m'`), mapped to
+     * the unit of the resulting number. Bare numbers are read in that unit.
+     *
+     * Use dot-notation for nested objects and `*` for every array element. A path to an
+     * array of numbers applies to its elements (`timeouts: 's'` parses `APP_TIMEOUTS=5m,30s`).
+     * Invalid durations are reported through `errorMode` and the default is kept.
+     *
+     * @example
+     * ```typescript
+     * durations: { timeout: 'ms', 'cache.ttl': 's', 'servers.*.keepAlive': 'ms' }
+     * // DB_TIMEOUT=30s → 30000, DB_CACHE_TTL=1h30m → 5400, DB_TIMEOUT=500 → 500
+     * ```
+     */
+    durations?: Record<string, DurationUnit>;
+
+    /**
+     * Properties holding byte sizes with SI (`KB` = 1000) or IEC (`KiB` = 1024) suffixes,
+     * such as `'512MB'` or `'1.5GiB'`. Suffixes are case-insensitive and the result is a
+     * whole number of bytes. Bare numbers are read as bytes.
+     *
+     * Use dot-notation for nested objects and `*` for every array element. A path to an
+     * array of numbers applies to its elements (`'caps'` parses `APP_CAPS=1KB,2KB`).
+     * Invalid, negative or unsafe values are reported through `errorMode` and the default is kept.
+     *
+     * @example
+     * ```typescript
+     * byteSizes: ['bodyLimit', 'cache.maxSize', 'uploads.*.cap']
+     * // APP_BODY_LIMIT=512MB → 512000000, APP_CACHE_MAX_SIZE=1.5GiB → 1610612736
+     * ```
+     */
+    byteSizes?: string[];
+
+    /**
+     * Delimiter-separated list syntax for arrays of primitives and Sets.
+     *
+     * Values that are not JSON (do not start with `[`) are split into entries, and each entry
+     * is coerced to the type of the template element. Entries wrapped in `"` or `'` keep
+     * separators and whitespace. Indexed variables (`APP_PORTS_0`) take priority over lists.
+     *
+     * @default { separator: ',', trim: true, empty: 'skip' }
+     *
+     * @example
+     * ```typescript
+     * // APP_ALLOWED_HOSTS=a.com, b.com  → ['a.com', 'b.com']
+     * // APP_PORTS=80,443                → [80, 443]
+     * lists: { separator: ';', properties: { paths: { separator: ':' } } }
+     * ```
+     */
+    lists?: ListOptions;
+
+    /**
+     * Types of properties whose default is `null` or `undefined` (otherwise read as strings),
+     * keyed by property path. A declared type takes precedence over the type of the default.
+     *
+     * For declared properties, the literal value `null` sets the property to `null`.
+     * Use dot-notation for nested objects and `*` for every array element.
+     *
+     * Pass a Map to also register custom types for this call only: constructor keys map to
+     * a {@link TypeCoercer} and take precedence over {@link AutoEnvParse.registerType}, string keys
+     * are property paths as above.
+     *
+     * @example
+     * ```typescript
+     * const config = { maxConnections: null as number | null, pool: { idleTimeout: undefined as number | undefined } };
+     * types: { maxConnections: 'number', 'pool.idleTimeout': 'number' }
+     * // APP_MAX_CONNECTIONS=10 → 10, APP_MAX_CONNECTIONS=null → null
+     *
+     * types: new Map([[Money, { parse: Money.parse }], ['discount', Money]])
+     * ```
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    types?: Record<string, TypeHint> | Map<string | TypeConstructor, TypeHint | TypeCoercer<any>>;
+
+    /**
+     * Properties that are records keyed by name, with the template of one entry, keyed by property path.
+     *
+     * Entries are discovered from variable names (`<NAME>_<KEY>_<PROPERTY>`, or `<NAME>_<KEY>` for
+     * primitive templates) and parsed like an object built from the template. Keys are converted to
+     * camelCase. A JSON object in `<NAME>` is also accepted; variables per entry take precedence.
+     *
+     * @example
+     * ```typescript
+     * const config = { databases: {} as Record<string, { host: string; port: number }> };
+     * records: { databases: { host: 'localhost', port: 5432 } }
+     * // APP_DATABASES_PRIMARY_HOST=db1, APP_DATABASES_READ_REPLICA_PORT=5433
+     * // → { primary: { host: 'db1', port: 5432 }, readReplica: { host: 'localhost', port: 5433 } }
+     * ```
+     */
+    records?: Record<string, unknown>;
+
+    /**
+     * Strict numeric and boolean coercion.
+     *
+     * When enabled, numbers must be complete numeric literals (decimal, `0x`/`0o`/`0b`,
+     * `1_000` separators are allowed) and booleans must be one of the recognized values.
+     * Rejected values are reported as validation errors through `errorMode`.
+     *
+     * Pass an object to enable additional checks.
+     *
+     * @default false
+     *
+     * @example
+     * ```typescript
+     * strict: true                                   // PORT=8080abc is rejected
+     * strict: { integers: true, safeIntegers: true } // PORT=80.5 is rejected (default 3000 is an integer)
+     * ```
+     */
+    strict?: boolean | StrictOptions;
+
+    /**
+     * Logger for warnings and debug tracing.
+     *
+     * Receives every level, including debug tracing of each lookup (env var name tried,
+     * whether it was found and which coercion was applied). When not specified,
+     * warnings go to `console.warn` and debug output is disabled unless `debug` is set.
+     *
+     * @example
+     * ```typescript
+     * import pino from 'pino';
+     * AutoEnvParse.parse(config, { prefix: 'DB', logger: pino() });
+     * ```
+     */
+    logger?: Logger;
+
+    /**
+     * Suppress all log output, including warnings. Takes precedence over `logger` and `debug`.
+     * Issues are still reported through `errorMode`.
+     *
+     * @default false
+     */
+    silent?: boolean;
+
+    /**
+     * Print debug tracing to the console when no custom `logger` is provided.
+     *
+     * @default false
+     */
+    debug?: boolean;
+
+    /**
+     * Sources to load environment variables from, in priority order.
+     * First source has highest priority.
+     *
+     * Special keyword: 'env' means process.env
+     * Other strings are treated as file paths to load.
+     *
+     * @default ['env', '.env']
+     *
+     * @example
+     * ```typescript
+     * // Use only process.env (v2.0 behavior)
+     * sources: ['env']
+     *
+     * // Multiple files with priority
+     * sources: ['env', '.env.local', '.env']
+     *
+     * // Environment-specific
+     * sources: ['env', `.env.${process.env.NODE_ENV}`, '.env']
+     * ```
+     */
+    sources?: Array<'env' | string>;
+
+    /**
+     * Custom parser function for .env files.
+     * Receives file content as string, returns key-value pairs.
+     *
+     * If not provided, uses built-in lightweight parser that supports:
+     * - KEY=value format
+     * - Comments (# comment)
+     * - Basic quotes ("value" or 'value')
+     * - Empty lines
+     *
+     * For advanced features (multiline, variable expansion), provide dotenv.parse:
+     * ```typescript
+     * import * as dotenv from 'dotenv';
+     * parse(config, { envFileParser: dotenv.parse })
+     * ```
+     *
+     * @param content - File content as string
+     * @returns Parsed key-value pairs
+     */
+    envFileParser?: (content: string) => Record<string, string>;
+
+    /**
+     * Match environment variable names regardless of case, so `db_host` in a `.env` file sets `dbHost`.
+     * The merged variables are normalized to upper case once, after all sources are loaded, and
+     * names built by a custom `naming` function are upper-cased too. When differently-cased names
+     * collide, the one from the highest-priority source is used and a warning is logged.
+     *
+     * @default false
+     */
+    caseInsensitive?: boolean;
+}
+
+/**
+ * Options for {@link AutoEnvParse.parseSchema}.
+ */
+export type SchemaParseOptions = Pick<
+    ParseOptions,
+    'prefix' | 'naming' | 'sources' | 'envFileParser' | 'caseInsensitive' | 'unknownVariables' | 'logger' | 'silent' | 'debug'
+>;
+
+/**
+ * Internal state shared by a single parse run.
+ */
+interface ParseContext {
+    /** Merged environment variables */
+    env: Record<string, string>;
+    /** Source name ('env' or file path) for each key in env */
+    origins: Record<string, string>;
+    /** Configured error mode (undefined means default behavior) */
+    errorMode?: ErrorMode;
+    /** Issues collected so far */
+    issues: EnvIssue[];
+    /** Property path of the object currently being parsed */
+    path: string[];
+    /** Property paths that received a value from an environment variable */
+    supplied: Set<string>;
+    /** Environment variable names that were looked up (or matched) during parsing */
+    known: Set<string>;
+    /** Line number of each key loaded from an env file */
+    lines: Record<string, number>;
+    /** Provenance recorded so far (undefined when provenance tracking is off) */
+    provenance?: Provenance;
+    /** Strict coercion settings (undefined when strict mode is off) */
+    strict?: StrictOptions;
+    /** Duration properties by declared path (may contain `*` segments) */
+    durations?: Record<string, DurationUnit>;
+    /** Byte size properties by declared path (may contain `*` segments) */
+    byteSizes?: Record<string, true>;
+    /** List syntax for arrays of primitives and Sets */
+    lists?: ListOptions;
+    /** Declared property types by path (may contain `*` segments) */
+    types?: Record<string, TypeHint>;
+    /** Custom types registered for this call */
+    coercers?: Map<TypeConstructor, TypeCoercer<unknown>>;
+    /** Entry templates of record properties by path (may contain `*` segments) */
+    records?: Record<string, unknown>;
+    /** Builds environment variable names from naming paths (prefix, keys, indices) */
+    naming: (path: string[]) => string;
+    /** Logger for warnings and debug tracing */
+    logger: Logger;
+}
+
+/**
+ * Logger that discards all messages.
+ */
+const silentLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+/**
+ * Utility class for parsing environment variables and applying them to configuration objects.
+ *
+ * Provides automatic environment variable discovery and type coercion based on object structure.
+ *
+ * **Features:**
+ * - Automatic type detection (primitives, arrays, objects)
+ * - CamelCase to SNAKE_CASE conversion
+ * - Type coercion (string, number, boolean)
+ * - Nested object support with dot-notation
+ * - Override system for custom parsing
+ * - .env file loading with configurable sources
+ *
+ * @example
+ * ```typescript
+ * // Simple usage with prefix
+ * const config = { host: 'localhost', port: 5432, ssl: false };
+ * AutoEnvParse.parse(config, { prefix: 'DB' });
+ * // Applies: DB_HOST, DB_PORT, DB_SSL
+ *
+ * // With .env files
+ * AutoEnvParse.parse(config, {
+ *   prefix: 'DB',
+ *   sources: ['env', '.env.local', '.env']
+ * });
+ *
+ * // With overrides
+ * const overrides = new Map();
+ * overrides.set('port', (obj, envVar) => {
+ *     const value = process.env[envVar];
+ *     if (value) {
+ *         const port = parseInt(value, 10);
+ *         if (port >= 1 && port <= 65535) {
+ *             obj.port = port;
+ *         }
+ *     }
+ * });
+ * AutoEnvParse.parse(config, { prefix: 'DB', overrides });
+ * ```
+ */
+export class AutoEnvParse {
+    /**
+     * Recognized truthy boolean values (case-insensitive).
+     */
+    private static readonly truthyValues = ['true', '1', 'yes', 'on'];
+
+    /**
+     * Recognized falsy boolean values (case-insensitive).
+     */
+    private static readonly falsyValues = ['false', '0', 'no', 'off'];
+
+    /**
+     * URL components that can be set individually (e.g., APP_API_URL_PORT).
+     */
+    private static readonly urlComponents = ['protocol', 'host', 'port', 'pathname'] as const;
+
+    /**
+     * Separators between path segments for the naming presets.
+     */
+    private static readonly namingSeparators: Record<Exclude<NamingStrategy, (path: string[]) => string>, string> = {
+        snake: '_',
+        'double-underscore': '__',
+        dot: '.'
+    };
+
+    /**
+     * Custom types registered with {@link AutoEnvParse.registerType}.
+     */
+    private static readonly registeredTypes = new Map<TypeConstructor, TypeCoercer<unknown>>();
+
+    /**
+     * Milliseconds per duration unit.
+     */
+    private static readonly durationUnits: Record<DurationUnit, number> = {
+        ms: 1,
+        s: 1000,
+        m: 60 * 1000,
+        h: 60 * 60 * 1000,
+        d: 24 * 60 * 60 * 1000
+    };
+
+    /**
+     * Built-in validation rules for use with {@link AutoEnvParse.validate} and {@link AutoEnvParse.transform}.
+     *
+     * Available rules: range, port, integer, url, email, pattern, minLength, maxLength, oneOf, nonEmpty.
+     *
+     * @example
+     * ```typescript
+     * const { validators } = AutoEnvParse;
+     * overrides.set('port', AutoEnvParse.validate('port', validators.port()));
+     * ```
+     */
+    static readonly validators = validators;
+
+    /**
+     * Parse environment variables into a class instance and report where each value came from.
+     *
+     * @param classConstructor - Class constructor function with default values
+     * @param options - Parse options with `provenance: true`
+     * @returns The populated instance and its provenance
+     *
+     * @example
+     * ```typescript
+     * const { data, provenance } = AutoEnvParse.parse(DbConfig, { prefix: 'DB', provenance: true });
+     * console.log(provenance.toTable());
+     * ```
+     */
+    static parse<T extends { new(): object }>(
+        classConstructor: T,
+        options: ParseOptions<InstanceType<T>> & { provenance: true }
+    ): ProvenanceResult<InstanceType<T>>;
+
+    /**
+     * Parse environment variables into a plain object and report where each value came from.
+     *
+     * @param target - Object to populate from environment variables
+     * @param options - Parse options with `provenance: true`
+     * @returns The populated object and its provenance
+     */
+    static parse<T extends object>(
+        target: T,
+        options: ParseOptions<T> & { provenance: true }
+    ): ProvenanceResult<T>;
+
+    /**
+     * Parse environment variables and create an instance from a class constructor.
+     *
+     * @param classConstructor - Class constructor function with default values
+     * @param options - Parse options including prefix, overrides, sources, and envFileParser
+     * @returns New instance of the class populated from environment variables
+     *
+     * @example
+     * ```typescript
+     * class DbConfig { host = 'localhost'; port = 5432; }
+     * const config = AutoEnvParse.parse(DbConfig, {
+     *   prefix: 'DB',
+     *   sources: ['env', '.env.local', '.env']
+     * });
+     * ```
+     */
+    static parse<T extends { new(): object }>(
+        classConstructor: T,
+        options?: ParseOptions<InstanceType<T>> & { provenance?: false }
+    ): InstanceType<T>;
+
+    /**
+     * Parse environment variables and apply them to a plain object.
+     *
+     * @param target - Object to populate from environment variables
+     * @param options - Parse options including prefix, overrides, sources, and envFileParser
+     * @returns The populated object
+     *
+     * @example
+     * ```typescript
+     * const config = AutoEnvParse.parse({ host: 'localhost', port: 5432 }, {
+     *   prefix: 'DB',
+     *   sources: ['env', '.env']
+     * });
+     * ```
+     */
+    static parse<T extends object>(
+        target: T,
+        options?: ParseOptions<T> & { provenance?: false }
     ): T;
 
     /**
-     * Unified parse implementation that handles both objects and class constructors.
+     * Parse environment variables into a class instance when provenance tracking is only known at
+     * runtime (`provenance: flag`). Returns `{ data, provenance }` when the flag is true.
+     *
+     * @param classConstructor - Class constructor function with default values
+     * @param options - Parse options with a boolean `provenance` flag
+     * @returns The populated instance, or the instance and its provenance
+     */
+    static parse<T extends { new(): object }>(
+        classConstructor: T,
+        options: ParseOptions<InstanceType<T>>
+    ): InstanceType<T> | ProvenanceResult<InstanceType<T>>;
+
+    /**
+     * Parse environment variables into a plain object when provenance tracking is only known at
+     * runtime (`provenance: flag`). Returns `{ data, provenance }` when the flag is true.
+     *
+     * @param target - Object to populate from environment variables
+     * @param options - Parse options with a boolean `provenance` flag
+     * @returns The populated object, or the object and its provenance
+     *
+     * @example
+     * ```typescript
+     * const result = AutoEnvParse.parse(config, { prefix: 'DB', provenance: process.env.TRACE === '1' });
+     * const data = 'provenance' in result ? result.data : result;
+     * ```
+     */
+    static parse<T extends object>(
+        target: T,
+        options: ParseOptions<T>
+    ): T | ProvenanceResult<T>;
+
+    /**
+     * Unified parse implementation that handles both objects and class constructors.
+     *
+     * @param targetOrClass - Either a plain object or a class constructor
+     * @param options - Parse options including prefix, overrides, sources, and envFileParser
+     * @returns The populated object or class instance
+     */
+    static parse(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        targetOrClass: any,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        options?: ParseOptions<any>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ): any {
+        const { data, issues, provenance } = this.run(targetOrClass, options, options?.errorMode);
+        this.throwIfIssues(issues);
+        return provenance ? { data, provenance } : data;
+    }
+
+    /**
+     * Parse environment variables without throwing on invalid values.
+     *
+     * Every issue is collected (as with `errorMode: 'collect'`) and returned
+     * alongside the populated object. Properties with issues keep their defaults.
+     *
+     * @param classConstructor - Class constructor function with default values
+     * @param options - Parse options (errorMode is ignored)
+     * @returns Result with success flag, populated instance and issues
+     *
+     * @example
+     * ```typescript
+     * const result = AutoEnvParse.safeParse(DbConfig, { prefix: 'DB' });
+     * if (!result.success) {
+     *     result.issues.forEach(issue => console.error(issue.message));
+     *     process.exit(1);
+     * }
+     * ```
+     */
+    static safeParse<T extends { new(): object }>(
+        classConstructor: T,
+        options?: ParseOptions<InstanceType<T>>
+    ): SafeParseResult<InstanceType<T>>;
+
+    /**
+     * Parse environment variables into a plain object without throwing on invalid values.
+     *
+     * @param target - Object to populate from environment variables
+     * @param options - Parse options (errorMode is ignored)
+     * @returns Result with success flag, populated object and issues
+     */
+    static safeParse<T extends object>(
+        target: T,
+        options?: ParseOptions<T>
+    ): SafeParseResult<T>;
+
+    /**
+     * Unified safeParse implementation that handles both objects and class constructors.
+     *
+     * @param targetOrClass - Either a plain object or a class constructor
+     * @param options - Parse options (errorMode is ignored)
+     * @returns Result with success flag, populated object and issues
+     */
+    static safeParse(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        targetOrClass: any,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        options?: ParseOptions<any>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ): SafeParseResult<any> {
+        const { data, issues, provenance } = this.run(targetOrClass, options, 'collect');
+        return { success: issues.length === 0, data, issues, ...(provenance && { provenance }) };
+    }
+
+    /**
+     * Shared implementation of parse() and safeParse().
+     *
+     * @param targetOrClass - Either a plain object or a class constructor
+     * @param options - Parse options
+     * @param errorMode - Error mode to use for this run
+     * @returns The populated object, issues collected during parsing and provenance (if requested)
+     */
+    private static run(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        targetOrClass: any,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        options: ParseOptions<any> | undefined,
+        errorMode: ErrorMode | undefined
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ): { data: any; issues: EnvIssue[]; provenance?: Provenance } {
+        // Use provided options or default to empty object
+        const opts = options || {};
+
+        // Default sources if not specified
+        if (!opts.sources) {
+            opts.sources = ['env', '.env'];
+        }
+
+        // Load and merge environment variables from all sources
+        // sources is guaranteed to be defined by the logic above
+        const logger = this.createLogger(opts);
+        const origins: Record<string, string> = {};
+        const lines: Record<string, number> = {};
+        const mergedEnv = this.loadSources(opts.sources!, opts.envFileParser, origins, logger, lines, opts.caseInsensitive);
+        const ctx = this.createContext(mergedEnv, {
+            errorMode,
+            origins,
+            lines,
+            logger,
+            strict: opts.strict === true ? {} : opts.strict || undefined,
+            durations: opts.durations,
+            byteSizes: opts.byteSizes && Object.fromEntries(opts.byteSizes.map(path => [path, true as const])),
+            lists: opts.lists,
+            ...this.splitTypes(opts.types),
+            records: opts.records,
+            naming: this.createNaming(opts.naming, opts.caseInsensitive),
+            provenance: opts.provenance ? new Provenance() : undefined
+        });
+
+        // Runtime detection: is it a constructor function or a plain object?
+        // Class constructor path - create instance and parse it
+        // Plain object path - parse and return it
+        const data = typeof targetOrClass === 'function' ? new targetOrClass() : targetOrClass;
+        const overrides = opts.overrides instanceof Map
+            ? opts.overrides
+            : opts.overrides && new Map(
+                (Object.entries(opts.overrides) as Array<[string, OverrideFn<unknown> | undefined]>)
+                    .filter((entry): entry is [string, OverrideFn<unknown>] => entry[1] !== undefined)
+            );
+        this.parseObject(data, opts.prefix || '', overrides, ctx);
+
+        for (const requiredPath of opts.required || []) {
+            this.checkRequired(data, requiredPath, requiredPath.split('.'), [], opts.prefix || '', ctx);
+        }
+
+        this.checkUnknownVariables(opts.prefix || '', opts.unknownVariables, ctx);
+
+        // Cross-field validation runs last, on the fully populated object
+        if (typeof data.validateEnv === 'function') {
+            this.runValidation(() => data.validateEnv(), opts.prefix || '', ctx);
+        }
+        if (opts.validate) {
+            this.runValidation(() => opts.validate!(data), opts.prefix || '', ctx);
+        }
+
+        return {
+            data,
+            issues: ctx.issues,
+            provenance: ctx.provenance && this.collectProvenance(data, [], ctx.provenance,
+                new Provenance(value => this.findCoercer(ctx, value)?.coercer.serialize?.(value)), ctx)
+        };
+    }
+
+    /**
+     * Parse environment variables and apply them to the target object.
+     * This is an internal method that performs the actual parsing logic: overrides are
+     * applied to top-level properties, every other property goes through {@link AutoEnvParse.applyProperty}.
+     *
+     * @param target - Object to populate from environment variables
+     * @param prefix - Optional environment variable prefix (e.g., 'DB', 'APP', 'REDIS'). Defaults to empty string.
+     * @param overrides - Optional custom parsers for specific properties
+     * @param ctx - Parse context (environment variables, error mode, collected issues)
+     */
+    private static parseObject<T extends object>(
+        target: T,
+        prefix: string,
+        overrides: Map<string, OverrideFn<T>> | undefined,
+        ctx: ParseContext
+    ): void {
+        this.validatePrefix(prefix);
+
+        for (const key in target) {
+            if (!Object.prototype.hasOwnProperty.call(target, key)) {
+                continue;
+            }
+
+            // Calculate env var name once
+            const names = this.namingPath(prefix, [key]);
+            const envVarName = ctx.naming(names);
+
+            // Check if there's a custom override for this property
+            if (overrides?.has(key)) {
+                const overrideValue = this.lookup(ctx, envVarName, this.propertyPath(ctx, key));
+                if (overrideValue !== undefined && overrideValue !== '') {
+                    this.markSupplied(ctx, this.propertyPath(ctx, key), envVarName, 'override');
+                }
+                ctx.logger.debug(`${envVarName} handled by override for "${this.propertyPath(ctx, key)}"`);
+                overrides.get(key)!(target, envVarName, this.createOverrideContext(ctx, key, envVarName));
+                continue;
+            }
+
+            this.applyProperty(target, key, names, 'env', ctx);
+        }
+    }
+
+    /**
+     * Validate prefix format if provided.
+     *
+     * @param prefix - Environment variable prefix
+     * @throws Error if the prefix contains anything other than uppercase letters and numbers
+     */
+    private static validatePrefix(prefix: string): void {
+        if (prefix && !/^[A-Z0-9]+$/.test(prefix)) {
+            throw new Error(`Invalid prefix "${prefix}". Use uppercase letters and numbers only.`);
+        }
+    }
+
+    /**
+     * Create a parse context for a single parse run.
+     *
+     * @param env - Merged environment variables
+     * @param settings - Settings derived from parse options (error mode, origins, logger, ...)
+     * @returns New parse context
+     */
+    private static createContext(
+        env: Record<string, string>,
+        settings: Partial<Pick<ParseContext, 'errorMode' | 'origins' | 'lines' | 'strict' | 'durations' | 'byteSizes' | 'lists' | 'types' | 'coercers' | 'records' | 'naming' | 'logger' | 'provenance'>> = {}
+    ): ParseContext {
+        return {
+            env,
+            origins: {},
+            issues: [],
+            path: [],
+            supplied: new Set(),
+            known: new Set(),
+            lines: {},
+            naming: this.createNaming(),
+            logger: this.createLogger({}),
+            ...settings
+        };
+    }
+
+    /**
+     * Resolve the naming option to a function building an environment variable name from a naming path.
+     *
+     * @param naming - Naming strategy (default: 'snake')
+     * @param caseInsensitive - Upper-case the names of custom strategies to match normalized variables
+     * @returns Function from path segments to an environment variable name
+     */
+    private static createNaming(naming: NamingStrategy = 'snake', caseInsensitive = false): (path: string[]) => string {
+        if (typeof naming === 'function') {
+            return caseInsensitive ? (path): string => naming(path).toUpperCase() : naming;
+        }
+        const separator = this.namingSeparators[naming];
+        if (separator === undefined) {
+            throw new Error(`Invalid naming strategy "${String(naming)}". Use 'snake', 'double-underscore', 'dot' or a function.`);
+        }
+        return path => path.map(segment => this.toSnakeCase(segment).toUpperCase()).join(separator);
+    }
+
+    /**
+     * Build the naming path of a property path: the prefix (when set), then the path segments.
+     *
+     * @param prefix - Environment variable prefix
+     * @param segments - Property path segments
+     * @returns Naming path
+     */
+    private static namingPath(prefix: string, segments: string[]): string[] {
+        return prefix ? [prefix, ...segments] : segments;
+    }
+
+    /**
+     * Build a pattern matching environment variable names of a naming path with variable
+     * segments, such as array indices or record keys. Each RegExp segment becomes a capture group.
+     *
+     * @param ctx - Parse context (for the naming strategy)
+     * @param segments - Naming path; RegExp segments match a variable part of the name
+     * @param open - Match names that continue below the path (e.g., element properties)
+     * @returns Pattern anchored at the start (and at the end unless open)
+     */
+    private static namePattern(ctx: ParseContext, segments: Array<string | RegExp>, open = false): RegExp {
+        // Variable segments are named with private use characters, which naming strategies pass through
+        const markers = segments.map((segment, index) =>
+            typeof segment === 'string' ? segment : String.fromCharCode(0xE000 + index));
+        const end = '\uF8FF';
+        // Open patterns end where the name of a (virtual) child segment would start
+        const full = ctx.naming(open ? [...markers, end] : markers);
+        const placeholders = markers.filter((_marker, index) => typeof segments[index] !== 'string');
+        if (![...placeholders, ...(open ? [end] : [])].every(marker => full.includes(marker))) {
+            throw new Error('Invalid naming strategy: the naming function dropped a placeholder segment. ' +
+                'Segments in the Unicode private use area (U+E000-U+F8FF) must be kept unchanged.');
+        }
+        const name = open ? full.split(end)[0] : full;
+
+        let source = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        segments.forEach((segment, index) => {
+            if (typeof segment !== 'string') {
+                source = source.split(String.fromCharCode(0xE000 + index)).join(`(${segment.source})`);
+            }
+        });
+        return new RegExp(open ? `^${source}` : `^${source}$`);
+    }
+
+    /**
+     * Resolve the logger for a parse run from the logger, silent and debug options.
+     *
+     * The default logger writes warnings to `console.warn` (prefixed with 'Warning: ')
+     * and errors to `console.error`. Debug and info output go to the console only in debug mode.
+     *
+     * @param options - Parse options
+     * @returns Logger to use
+     */
+    private static createLogger(options: Pick<ParseOptions, 'logger' | 'silent' | 'debug'>): Logger {
+        if (options.silent) {
+            return silentLogger;
+        }
+        if (options.logger) {
+            return options.logger;
+        }
+        return {
+            debug: options.debug ? (message): void => console.debug(message) : silentLogger.debug,
+            info: options.debug ? (message): void => console.info(message) : silentLogger.info,
+            warn: (message): void => console.warn(`Warning: ${message}`),
+            error: (message): void => console.error(`Error: ${message}`)
+        };
+    }
+
+    /**
+     * Look up an environment variable, tracing the attempt at debug level.
+     *
+     * @param ctx - Parse context
+     * @param envVarName - Environment variable name
+     * @param path - Property path the variable applies to
+     * @returns Raw value, or undefined if not set
+     */
+    private static lookup(ctx: ParseContext, envVarName: string, path: string): string | undefined {
+        ctx.known.add(envVarName);
+        const value = ctx.env[envVarName];
+        if (value === undefined) {
+            ctx.logger.debug(`${envVarName} not set, keeping default for "${path}"`);
+        } else {
+            ctx.logger.debug(`${envVarName} found for "${path}"`);
+        }
+        return value;
+    }
+
+    /**
+     * Create a context for parsing a nested object. Shares env and collected issues
+     * with the parent context, only the property path differs.
+     *
+     * @param ctx - Parent context
+     * @param key - Property key (or array index) of the nested object
+     * @returns Child context
+     */
+    private static childContext(ctx: ParseContext, key: string | number): ParseContext {
+        return { ...ctx, path: [...ctx.path, String(key)] };
+    }
+
+    /**
+     * Build the dot-separated property path for a key within the current context.
+     *
+     * @param ctx - Parse context
+     * @param key - Property key
+     * @returns Property path (e.g., 'database.port')
+     */
+    private static propertyPath(ctx: ParseContext, key: string | number): string {
+        return [...ctx.path, String(key)].join('.');
+    }
+
+    /**
+     * Report an issue according to the configured error mode.
+     *
+     * @param ctx - Parse context
+     * @param issue - Issue details (source is filled in from the context)
+     * @param severity - Severity used when no error mode is configured
+     */
+    private static report(
+        ctx: ParseContext,
+        issue: Omit<EnvIssue, 'source'>,
+        severity: IssueSeverity = 'warning'
+    ): void {
+        const fullIssue: EnvIssue = {
+            ...issue,
+            source: issue.value === undefined ? undefined : (ctx.origins[issue.envVar] ?? 'env')
+        };
+
+        switch (ctx.errorMode) {
+            case 'throw':
+                throw new EnvValidationError([fullIssue]);
+            case 'collect':
+                ctx.issues.push(fullIssue);
+                break;
+            case 'warn':
+                ctx.logger.warn(fullIssue.message);
+                break;
+            default:
+                if (severity === 'error') {
+                    ctx.issues.push(fullIssue);
+                } else {
+                    ctx.logger.warn(fullIssue.message);
+                }
+        }
+    }
+
+    /**
+     * Throw an aggregated validation error if any issues were collected.
+     *
+     * @param issues - Issues collected during parsing
+     */
+    private static throwIfIssues(issues: EnvIssue[]): void {
+        if (issues.length > 0) {
+            throw new EnvValidationError(issues);
+        }
+    }
+
+    /**
+     * Record that a property received a value from the environment, and where it came from.
+     * Objects and arrays (e.g., parsed JSON) mark all of their nested properties too.
+     *
+     * @param ctx - Parse context
+     * @param path - Property path
+     * @param envVarName - Environment variable the value was read from
+     * @param source - How the value was applied
+     * @param value - Optional parsed value whose nested properties should be marked
+     */
+    private static markSupplied(
+        ctx: ParseContext,
+        path: string,
+        envVarName: string,
+        source: ProvenanceSource,
+        value?: unknown
+    ): void {
+        ctx.supplied.add(path);
+        if (ctx.provenance) {
+            const origin = ctx.origins[envVarName];
+            ctx.provenance.set(path, {
+                envVar: envVarName,
+                source,
+                file: origin === 'env' ? undefined : origin,
+                line: ctx.lines[envVarName],
+                rawValue: ctx.env[envVarName],
+                applied: undefined
+            });
+        }
+        if (typeof value === 'object' && value !== null) {
+            for (const key of Object.keys(value)) {
+                this.markSupplied(ctx, `${path}.${key}`, envVarName, source, (value as Record<string, unknown>)[key]);
+            }
+        }
+    }
+
+    /**
+     * Build the final provenance by walking the parsed object. Every leaf property gets the
+     * recorded entry (or a 'default' entry) with its final value.
+     *
+     * @param value - Current value
+     * @param path - Property path segments of the current value
+     * @param recorded - Entries recorded while parsing
+     * @param result - Provenance being built
+     * @param ctx - Parse context (for registered custom types)
+     * @returns The provenance being built
+     */
+    private static collectProvenance(value: unknown, path: string[], recorded: Provenance, result: Provenance, ctx: ParseContext): Provenance {
+        if (typeof value === 'function') {
+            return result;
+        }
+        // Arrays of primitives are a single leaf, unless their elements were supplied individually (APP_PORTS_0)
+        const isLeaf = typeof value !== 'object' || value === null || value instanceof RegExp || value instanceof Date ||
+            this.findCoercer(ctx, value) !== undefined ||
+            (Array.isArray(value) && !value.some(element => typeof element === 'object' && element !== null && !(element instanceof RegExp) &&
+                !this.findCoercer(ctx, element)) &&
+                (recorded.has(path.join('.')) || !recorded.has([...path, '0'].join('.'))));
+
+        // Empty objects are reported as a single leaf
+        if (!isLeaf && Object.keys(value as object).length > 0) {
+            for (const key of Object.keys(value as object)) {
+                this.collectProvenance((value as Record<string, unknown>)[key], [...path, key], recorded, result, ctx);
+            }
+            return result;
+        }
+
+        const fullPath = path.join('.');
+        let entry = recorded.get(fullPath);
+        // Values set by an override (e.g., a transform returning an object) belong to the overridden property
+        for (let i = path.length - 1; !entry && i > 0; i--) {
+            const ancestor = recorded.get(path.slice(0, i).join('.'));
+            if (ancestor?.source === 'override') {
+                entry = ancestor;
+            }
+        }
+
+        result.set(fullPath, {
+            ...(entry ?? { envVar: undefined, source: 'default', file: undefined, line: undefined, rawValue: undefined }),
+            applied: value
+        });
+        return result;
+    }
+
+    /**
+     * Check whether a property (or any of its nested properties) received a value from the environment.
+     *
+     * @param ctx - Parse context
+     * @param path - Property path
+     * @returns True if the property was supplied
+     */
+    private static isSupplied(ctx: ParseContext, path: string): boolean {
+        if (ctx.supplied.has(path)) {
+            return true;
+        }
+        for (const supplied of ctx.supplied) {
+            if (supplied.startsWith(`${path}.`)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Verify that a required property path was supplied, reporting an issue for each missing variable.
+     * Expands `*` segments to every element of the parsed array.
+     *
+     * @param value - Current value at the resolved path
+     * @param requiredPath - Required path as configured (used for error messages)
+     * @param segments - Remaining path segments to resolve
+     * @param resolved - Path segments resolved so far
+     * @param prefix - Environment variable prefix
+     * @param ctx - Parse context
+     */
+    private static checkRequired(
+        value: unknown,
+        requiredPath: string,
+        segments: string[],
+        resolved: string[],
+        prefix: string,
+        ctx: ParseContext
+    ): void {
+        if (segments.length === 0) {
+            const path = resolved.join('.');
+            if (!this.isSupplied(ctx, path)) {
+                const envVarName = ctx.naming(this.namingPath(prefix, resolved));
+                this.report(ctx, {
+                    envVar: envVarName,
+                    path,
+                    value: undefined,
+                    expected: this.describeType(value),
+                    message: `Missing required environment variable ${envVarName}`
+                }, 'error');
+            }
+            return;
+        }
+
+        const [segment, ...rest] = segments;
+
+        if (segment === '*' && Array.isArray(value)) {
+            value.forEach((element, index) => {
+                this.checkRequired(element, requiredPath, rest, [...resolved, String(index)], prefix, ctx);
+            });
+            return;
+        }
+
+        if (typeof value !== 'object' || value === null || !Object.prototype.hasOwnProperty.call(value, segment)) {
+            throw new Error(`Invalid required path "${requiredPath}". Property "${segment}" does not exist.`);
+        }
+
+        this.checkRequired((value as Record<string, unknown>)[segment], requiredPath, rest, [...resolved, segment], prefix, ctx);
+    }
+
+    /**
+     * Run a cross-field validation and report each failure as a validation error.
+     *
+     * @param validation - Validation to run (the validate option or validateEnv() method)
+     * @param prefix - Environment variable prefix
+     * @param ctx - Parse context
+     * @throws TypeError if the validation returns anything but a {@link ValidationResult}, such as a Promise
+     */
+    private static runValidation(validation: () => ValidationResult, prefix: string, ctx: ParseContext): void {
+        let result: ValidationResult;
+        try {
+            result = validation();
+        } catch (error) {
+            result = error instanceof Error ? error.message : String(error);
+        }
+
+        if (typeof (result as { then?: unknown } | null)?.then === 'function') {
+            // The outcome is discarded, so a rejection must not surface as an unhandled rejection
+            Promise.resolve(result).catch(() => undefined);
+            throw new TypeError('Cross-field validation returned a Promise. Asynchronous validation is not supported.');
+        }
+        const failures = Array.isArray(result) ? result : [result];
+        if (result !== undefined && !failures.every(failure => this.isValidationFailure(failure))) {
+            throw new TypeError('Invalid cross-field validation result. Return nothing, a message, ' +
+                'a { path, message } object or an array of them.');
+        }
+
+        for (const failure of failures) {
+            if (!failure) {
+                continue;
+            }
+            const { path = '', message } = typeof failure === 'string' ? { message: failure } : failure;
+            const envVarName = path ? ctx.naming(this.namingPath(prefix, path.split('.'))) : '';
+            this.report(ctx, {
+                envVar: envVarName,
+                path,
+                value: envVarName ? ctx.env[envVarName] : undefined,
+                expected: 'valid configuration',
+                message
+            }, 'error');
+        }
+    }
+
+    /**
+     * Check if a value is a failure of a cross-field validation: a message or a { path, message } object.
+     *
+     * @param value - Value returned by a validation
+     * @returns True if value is a message or a ValidationFailure
+     */
+    private static isValidationFailure(value: unknown): value is string | ValidationFailure {
+        if (typeof value === 'string') {
+            return true;
+        }
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return false;
+        }
+        const { path, message } = value as Partial<ValidationFailure>;
+        return typeof message === 'string' && (path === undefined || typeof path === 'string');
+    }
+
+    /**
+     * Report environment variables that start with the prefix but were never looked up.
+     *
+     * @param prefix - Environment variable prefix (the check is skipped without one)
+     * @param mode - Unknown variables mode
+     * @param ctx - Parse context
+     */
+    private static checkUnknownVariables(prefix: string, mode: UnknownVariablesMode | undefined, ctx: ParseContext): void {
+        if (!prefix || !mode || mode === 'ignore') {
+            return;
+        }
+
+        const namespace = this.namePattern(ctx, [prefix], true);
+        for (const key of Object.keys(ctx.env)) {
+            if (!namespace.test(key) || ctx.known.has(key)) {
+                continue;
+            }
+
+            const suggestion = this.suggestName(key, ctx.known);
+            const message = `Unknown environment variable ${key}${suggestion ? ` (did you mean ${suggestion}?)` : ''}`;
+
+            if (mode === 'warn') {
+                ctx.logger.warn(message);
+            } else {
+                this.report(ctx, {
+                    envVar: key,
+                    path: '',
+                    value: ctx.env[key],
+                    expected: suggestion ?? 'known variable',
+                    message
+                }, 'error');
+            }
+        }
+    }
+
+    /**
+     * Find the closest known environment variable name by edit distance.
+     *
+     * @param name - Unknown variable name
+     * @param candidates - Known variable names
+     * @returns Closest name, or undefined if none is close enough
+     */
+    private static suggestName(name: string, candidates: Iterable<string>): string | undefined {
+        const maxDistance = Math.max(2, Math.floor(name.length / 4));
+        let best: string | undefined;
+        let bestDistance = Infinity;
+
+        for (const candidate of candidates) {
+            const distance = this.editDistance(name, candidate);
+            if (distance < bestDistance) {
+                best = candidate;
+                bestDistance = distance;
+            }
+        }
+
+        return bestDistance <= maxDistance ? best : undefined;
+    }
+
+    /**
+     * Levenshtein distance between two strings, counting an adjacent swap ('HSOT' → 'HOST') as one edit.
+     *
+     * @param a - First string
+     * @param b - Second string
+     * @returns Number of edits
+     */
+    private static editDistance(a: string, b: string): number {
+        const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+        for (let j = 1; j <= b.length; j++) {
+            d[0][j] = j;
+        }
+
+        for (let i = 1; i <= a.length; i++) {
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+                if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                    d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+                }
+            }
+        }
+
+        return d[a.length][b.length];
+    }
+
+    /**
+     * Describe the type of a default value for issue reports.
+     *
+     * @param value - Default value
+     * @returns Type description (e.g., 'string', 'number', 'array')
+     */
+    private static describeType(value: unknown): string {
+        if (value === null || value === undefined) {
+            return 'string';
+        }
+        if (Array.isArray(value)) {
+            return 'array';
+        }
+        return this.coercionType(value);
+    }
+
+    /**
+     * Type a raw value is coerced to, inferred from the default value.
+     *
+     * @param defaultValue - Current (default) value
+     * @returns Type name for {@link AutoEnvParse.coerceValue} ('string', 'number', 'boolean', 'date', 'url', 'regexp', ...)
+     */
+    private static coercionType(defaultValue: unknown): string {
+        if (defaultValue === null || defaultValue === undefined) {
+            return 'string';
+        }
+        if (defaultValue instanceof Date) {
+            return 'date';
+        }
+        if (defaultValue instanceof RegExp) {
+            return 'regexp';
+        }
+        return defaultValue instanceof URL ? 'url' : typeof defaultValue;
+    }
+
+    /**
+     * Create the context object passed to override functions.
+     *
+     * @param ctx - Parse context
+     * @param key - Property key being overridden
+     * @param envVarName - Environment variable name for the property
+     * @returns Override context
+     */
+    private static createOverrideContext(ctx: ParseContext, key: string, envVarName: string): OverrideContext {
+        const path = this.propertyPath(ctx, key);
+        return {
+            env: ctx.env,
+            path,
+            logger: ctx.logger,
+            strict: ctx.strict !== undefined,
+            report: (issue, severity = 'error'): void => {
+                this.report(ctx, { envVar: envVarName, path, ...issue }, severity);
+            }
+        };
+    }
+
+    /**
+     * Coerce an environment variable value to the declared type of its property, or the type
+     * of its default, reporting an issue if the value is invalid.
+     *
+     * @param ctx - Parse context
+     * @param envVarName - Environment variable name (for issue reporting)
+     * @param path - Property path (for issue reporting)
+     * @param value - Raw environment variable value
+     * @param defaultValue - Current (default) value used for type inference
+     * @returns Coerced value, null for the literal 'null' of a declared type, or undefined if the value is invalid
+     * @throws Error if the declared type is a constructor that was not registered
+     */
+    private static coerceChecked(
+        ctx: ParseContext,
+        envVarName: string,
+        path: string,
+        value: string,
+        defaultValue: unknown
+    ): unknown {
+        const durationUnit = this.declaredForPath(ctx.durations, path, true);
+        const byteSize = this.declaredForPath(ctx.byteSizes, path, true);
+        const hint = this.declaredForPath(ctx.types, path);
+        if (hint && value === 'null') {
+            ctx.logger.debug(`${envVarName} reset to null for "${path}"`);
+            return null;
+        }
+        const custom = durationUnit || byteSize ? undefined
+            : typeof hint === 'function' ? this.declaredCoercer(ctx, hint, path)
+                : hint ? undefined : this.findCoercer(ctx, defaultValue);
+        const type = durationUnit ? 'duration'
+            : byteSize ? 'bytes'
+                : custom ? custom.name
+                    : typeof hint === 'string' ? hint : this.coercionType(defaultValue);
+
+        try {
+            let coerced: unknown;
+            if (durationUnit) {
+                coerced = this.parseDuration(value, durationUnit);
+            } else if (custom) {
+                try {
+                    coerced = custom.coercer.parse(value);
+                } catch (error) {
+                    throw error instanceof CoercionError ? error : new CoercionError(custom.name, value);
+                }
+            } else if (type === 'regexp') {
+                if (value.trim() === '') {
+                    // An empty pattern matches every string, so it is treated as unset
+                    ctx.logger.debug(`${envVarName} is empty, keeping the default pattern for "${path}"`);
+                    return undefined;
+                }
+                // A plain pattern keeps the flags of the default, a /source/flags literal sets its own
+                coerced = this.parseRegExp(value, defaultValue instanceof RegExp ? defaultValue.flags : '');
+            } else if (ctx.strict) {
+                coerced = this.coerceValue(value, type, {
+                    strict: true,
+                    integer: ctx.strict.integers && Number.isInteger(defaultValue),
+                    safeInteger: ctx.strict.safeIntegers
+                });
+            } else {
+                if (type === 'number' && isNaN(parseFloat(value))) {
+                    throw new CoercionError('number', value);
+                }
+                coerced = this.coerceValue(value, type);
+            }
+            ctx.logger.debug(`${envVarName} coerced to ${type}${ctx.strict ? ' (strict)' : ''} for "${path}"`);
+            return coerced;
+        } catch (error) {
+            if (!(error instanceof CoercionError)) {
+                throw error;
+            }
+            this.report(ctx, {
+                envVar: envVarName,
+                path,
+                value,
+                expected: error.expected,
+                message: `Invalid ${error.expected} value for ${envVarName}: "${value}"`
+            }, ctx.strict || custom || type === 'regexp' ? 'error' : 'warning');
+            return undefined;
+        }
+    }
+
+    /**
+     * Split the `types` option into declared property types and custom types for this call.
      *
-     * @param targetOrClass - Either a plain object or a class constructor
-     * @param options - Parse options including prefix, overrides, sources, and envFileParser
-     * @returns The populated object or class instance
+     * @param types - `types` option
+     * @returns Declared types by path and custom types by constructor
      */
-    static parse(
+    private static splitTypes(
+        types: ParseOptions['types']
+    ): Pick<ParseContext, 'types' | 'coercers'> {
+        if (!(types instanceof Map)) {
+            return { types };
+        }
+
+        const declared: Record<string, TypeHint> = {};
+        const coercers = new Map<TypeConstructor, TypeCoercer<unknown>>();
+        for (const [key, value] of types) {
+            if (typeof key === 'string') {
+                declared[key] = value as TypeHint;
+            } else {
+                coercers.set(key, value as TypeCoercer<unknown>);
+            }
+        }
+        return { types: declared, coercers };
+    }
+
+    /**
+     * Find the custom type of a value: types registered for this call first,
+     * then types registered with {@link AutoEnvParse.registerType}.
+     *
+     * @param ctx - Parse context
+     * @param value - Current (default) value
+     * @returns Coercer and type name, or undefined if the value is not an instance of a custom type
+     */
+    private static findCoercer(ctx: ParseContext, value: unknown): { coercer: TypeCoercer<unknown>; name: string } | undefined {
+        if (typeof value !== 'object' || value === null) {
+            return undefined;
+        }
+        for (const registry of [ctx.coercers, this.registeredTypes]) {
+            for (const [ctor, coercer] of registry ?? []) {
+                if (value instanceof ctor) {
+                    return { coercer, name: coercer.describe ?? ctor.name };
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Find the coercer of a constructor declared in the `types` option.
+     *
+     * @param ctx - Parse context
+     * @param ctor - Declared constructor
+     * @param path - Property path (for the error message)
+     * @returns Coercer and type name
+     * @throws Error if the constructor was not registered
+     */
+    private static declaredCoercer(ctx: ParseContext, ctor: TypeConstructor, path: string): { coercer: TypeCoercer<unknown>; name: string } {
+        const coercer = ctx.coercers?.get(ctor) ?? this.registeredTypes.get(ctor);
+        if (!coercer) {
+            throw new Error(`Type ${ctor.name} declared for "${path}" is not registered. Use AutoEnvParse.registerType() or the types option.`);
+        }
+        return { coercer, name: coercer.describe ?? ctor.name };
+    }
+
+    /**
+     * Find the setting declared for a property path in a path-keyed option
+     * (e.g., `durations`). Declared paths may use `*` for every array element.
+     *
+     * @param declared - Settings by declared path
+     * @param path - Property path (e.g., 'servers.0.timeout')
+     * @param elements - Also apply a setting declared for an array to its elements ('caps' to 'caps.0')
+     * @returns Setting for the path, or undefined if none was declared
+     */
+    private static declaredForPath<V>(declared: Record<string, V> | undefined, path: string, elements = false): V | undefined {
+        if (!declared) {
+            return undefined;
+        }
+        if (Object.prototype.hasOwnProperty.call(declared, path)) {
+            return declared[path];
+        }
+
+        const segments = path.split('.');
+        for (const [declaredPath, value] of Object.entries(declared)) {
+            const parts = declaredPath.split('.');
+            if (parts.length === segments.length &&
+                parts.every((part, i) => part === segments[i] || (part === '*' && /^\d+$/.test(segments[i])))) {
+                return value;
+            }
+        }
+        if (elements && segments.length > 1 && /^\d+$/.test(segments[segments.length - 1])) {
+            return this.declaredForPath(declared, segments.slice(0, -1).join('.'));
+        }
+        return undefined;
+    }
+
+    /**
+     * Check if a value is a plain object (not an array, class instance, or null).
+     * Works across realms (iframes, vm contexts, etc.)
+     *
+     * @param value - Value to check
+     * @returns True if value is a plain object
+     */
+    private static isPlainObject(value: unknown): boolean {
+        if (typeof value !== 'object' || value === null) {
+            return false;
+        }
+        const proto = Object.getPrototypeOf(value);
+        return proto === null || proto === Object.prototype;
+    }
+
+    /**
+     * Create and populate an instance from a class constructor.
+     *
+     * This method instantiates a class and populates it from environment variables.
+     * Perfect for when you already have classes with default values defined.
+     *
+     * @param classConstructor - Class constructor function with default values
+     * @param prefix - Optional environment variable prefix. Defaults to empty string.
+     * @param overrides - Optional custom parsers for specific properties
+     * @returns New instance of the class populated from environment variables
+     *
+     * @example
+     * ```typescript
+     * class DatabaseConfig {
+     *     host = 'localhost';
+     *     port = 5432;
+     *     ssl = false;
+     * }
+     *
+     * // Environment: DB_HOST=prod.example.com, DB_PORT=5433, DB_SSL=true
+     * const config = AutoEnvParse.createFrom(DatabaseConfig, 'DB');
+     * // config is instance of DatabaseConfig with env values applied
+     * ```
+     *
+     * @example
+     * ```typescript
+     * class AppConfig {
+     *     nodeEnv = 'development';
+     *     port = 3000;
+     *     debug = false;
+     * }
+     *
+     * // Environment: NODE_ENV=production, PORT=8080, DEBUG=true
+     * const config = AutoEnvParse.createFrom(AppConfig); // No prefix
+     * ```
+     */
+    static createFrom<T extends { new(): object }>(
+        classConstructor: T,
+        prefix?: string,
+        overrides?: Map<string, OverrideFn<InstanceType<T>>>
+    ): InstanceType<T> {
+        const instance = new classConstructor() as InstanceType<T>;
+        const ctx = this.createContext(process.env as Record<string, string>);
+        this.parseObject(instance, prefix || '', overrides, ctx);
+        this.throwIfIssues(ctx.issues);
+        return instance;
+    }
+
+    /**
+     * Register a custom type. Defaults that are instances of the constructor (or a subclass)
+     * are read from a single variable and converted with the coercer, at every level:
+     * top-level properties, nested objects, class instances, array elements and JSON values.
+     *
+     * Registrations are global. Use the `types` option with a Map to register a type for one call.
+     *
+     * @param ctor - Class constructor
+     * @param coercer - Conversion from strings, with optional display and error name
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.registerType(Decimal, { parse: value => new Decimal(value) });
+     *
+     * const config = { price: new Decimal('9.99') };
+     * AutoEnvParse.parse(config, { prefix: 'APP' });
+     * // APP_PRICE=12.50 → Decimal('12.50'), APP_PRICE=abc → 'Invalid Decimal value for APP_PRICE: "abc"'
+     * ```
+     */
+    static registerType<T>(ctor: TypeConstructor<T>, coercer: TypeCoercer<T>): void {
+        this.registeredTypes.set(ctor, coercer);
+    }
+
+    /**
+     * Remove a custom type registered with {@link AutoEnvParse.registerType}.
+     *
+     * @param ctor - Class constructor
+     * @returns True if the type was registered
+     */
+    static unregisterType(ctor: TypeConstructor): boolean {
+        return this.registeredTypes.delete(ctor);
+    }
+
+    /**
+     * Parse environment variables using a Standard Schema (Zod, Valibot, ...) as the source of truth.
+     *
+     * Environment variable names are derived from the schema's object shape with the same
+     * rules as parse() (camelCase → SNAKE_CASE, prefix, dot-notation for nested objects and
+     * array elements, JSON for arrays and objects). Raw strings are coerced to the schema's
+     * leaf types before validation, which is delegated to the schema itself.
+     *
+     * Unset variables are left undefined so optional fields and schema defaults apply.
+     *
+     * @param schema - Standard Schema compatible object schema (Zod 3.24+, Zod 4, Valibot 1.0+)
+     * @param options - Prefix, sources, envFileParser and logging options
+     * @returns Validated, fully typed schema output
+     * @throws EnvValidationError listing every schema issue
+     *
+     * @example
+     * ```typescript
+     * import { z } from 'zod';
+     *
+     * const DbSchema = z.object({
+     *     host: z.string().default('localhost'),
+     *     port: z.number().int().min(1).max(65535),
+     *     mode: z.enum(['primary', 'replica']).optional()
+     * });
+     *
+     * // Environment: DB_PORT=5432, DB_MODE=replica
+     * const config = AutoEnvParse.parseSchema(DbSchema, { prefix: 'DB' });
+     * // config: { host: 'localhost', port: 5432, mode: 'replica' }
+     * ```
+     */
+    static parseSchema<S extends StandardSchemaV1>(
+        schema: S,
+        options: SchemaParseOptions = {}
+    ): InferSchemaOutput<S> {
+        const prefix = options.prefix || '';
+        this.validatePrefix(prefix);
+
+        const logger = this.createLogger(options);
+        const origins: Record<string, string> = {};
+        const mergedEnv = this.loadSources(
+            options.sources || ['env', '.env'], options.envFileParser, origins, logger, {}, options.caseInsensitive
+        );
+        const ctx = this.createContext(mergedEnv, { origins, logger, naming: this.createNaming(options.naming, options.caseInsensitive) });
+
+        const node = describeSchema(schema);
+        const input = this.readSchemaNode(node, this.namingPath(prefix, []), ctx) ?? this.emptySchemaObject(node);
+        this.checkUnknownVariables(prefix, options.unknownVariables, ctx);
+        const result = schema['~standard'].validate(input);
+
+        if (result instanceof Promise) {
+            throw new Error('Asynchronous schemas are not supported by parseSchema().');
+        }
+
+        if (result.issues) {
+            for (const issue of result.issues) {
+                const segments = (issue.path ?? []).map(segment =>
+                    String(typeof segment === 'object' && segment !== null ? segment.key : segment));
+                const envVarName = segments.length > 0 || prefix ? ctx.naming(this.namingPath(prefix, segments)) : '';
+                this.report(ctx, {
+                    envVar: envVarName,
+                    path: segments.join('.'),
+                    value: ctx.env[envVarName],
+                    expected: describeExpected(node, segments),
+                    message: envVarName ? `Invalid value for ${envVarName}: ${issue.message}` : issue.message
+                }, 'error');
+            }
+        }
+
+        this.throwIfIssues(ctx.issues);
+        return (result as { value: InferSchemaOutput<S> }).value;
+    }
+
+    /**
+     * Build the raw input for a schema node from environment variables.
+     *
+     * @param node - Schema node
+     * @param names - Naming path of the node (the prefix, or nothing, for the root)
+     * @param ctx - Parse context for the node
+     * @returns Input value, or undefined if no environment variable was found
+     */
+    private static readSchemaNode(node: SchemaNode, names: string[], ctx: ParseContext): unknown {
+        const envVarName = names.length > 0 ? ctx.naming(names) : '';
+        if (node.kind === 'object') {
+            const result: Record<string, unknown> = {};
+            if (envVarName) {
+                this.applyJsonObject(result, envVarName, ctx.env, ctx);
+            }
+
+            for (const key of Object.keys(node.entries)) {
+                const value = this.readSchemaNode(node.entries[key], [...names, key], this.childContext(ctx, key));
+                if (value !== undefined) {
+                    result[key] = value;
+                }
+            }
+
+            if (Object.keys(result).length === 0) {
+                return undefined;
+            }
+            // Required nested objects that had no variables still need to exist for their defaults
+            for (const key of Object.keys(node.entries)) {
+                if (result[key] === undefined) {
+                    const empty = this.emptySchemaObject(node.entries[key]);
+                    if (empty !== undefined) {
+                        result[key] = empty;
+                    }
+                }
+            }
+            return result;
+        }
+
+        if (node.kind === 'array' && (node.element.kind === 'object' || node.element.kind === 'leaf')) {
+            const indices = this.detectArrayIndices(names, ctx, node.element.kind === 'leaf');
+            if (indices.length > 0) {
+                ctx.known.add(envVarName);
+                ctx.logger.debug(`${envVarName} found array indices ${indices.join(', ')} for "${ctx.path.join('.')}"`);
+                return indices.map((index, position) =>
+                    this.readSchemaNode(node.element, [...names, String(index)], this.childContext(ctx, position))
+                    ?? this.emptySchemaObject(node.element));
+            }
+        }
+
+        const raw = this.lookup(ctx, envVarName, ctx.path.join('.'));
+        if (raw === undefined) {
+            return undefined;
+        }
+
+        if (node.kind === 'array') {
+            try {
+                const parsed = JSON.parse(raw);
+                ctx.logger.debug(`${envVarName} parsed as JSON for "${ctx.path.join('.')}"`);
+                return parsed;
+            } catch {
+                // Let the schema report the invalid value
+                return raw;
+            }
+        }
+
+        if (raw === '' && node.types.size > 0 && !node.types.has('string')) {
+            // Empty string means "no value set"
+            return undefined;
+        }
+
+        return this.coerceSchemaLeaf(raw, node, envVarName, ctx);
+    }
+
+    /**
+     * Coerce a raw value to the first matching leaf type of a schema node. Values of leaves that
+     * accept any string, values equal to a string literal of the leaf, and values that match
+     * none of the types are passed to the schema as-is.
+     *
+     * @param raw - Raw environment variable value
+     * @param node - Leaf schema node
+     * @param envVarName - Environment variable name
+     * @param ctx - Parse context
+     * @returns Coerced value, or the raw string
+     */
+    private static coerceSchemaLeaf(
+        raw: string,
+        node: Extract<SchemaNode, { kind: 'leaf' }>,
+        envVarName: string,
+        ctx: ParseContext
+    ): unknown {
+        // The raw value is already valid for schemas that accept any string or this literal ("007" stays "007")
+        if (node.anyString || node.literals.has(raw)) {
+            return raw;
+        }
+        for (const type of ['number', 'bigint', 'boolean', 'date', 'json'] as const) {
+            if (!node.types.has(type)) {
+                continue;
+            }
+            try {
+                const value = type === 'json' ? JSON.parse(raw) : this.coerceValue(raw, type, { strict: true });
+                ctx.logger.debug(`${envVarName} coerced to ${type} for "${ctx.path.join('.')}"`);
+                return value;
+            } catch {
+                // Try the next type
+            }
+        }
+        return raw;
+    }
+
+    /**
+     * Create an empty input for a required object node, so nested schema defaults apply.
+     *
+     * @param node - Schema node
+     * @returns Empty object (with required nested objects), or undefined for other nodes
+     */
+    private static emptySchemaObject(node: SchemaNode): Record<string, unknown> | undefined {
+        if (node.kind !== 'object' || node.optional) {
+            return undefined;
+        }
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(node.entries)) {
+            const empty = this.emptySchemaObject(node.entries[key]);
+            if (empty !== undefined) {
+                result[key] = empty;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Convert an env var name segment back to a camelCase key (e.g., 'READ_REPLICA' or 'read-replica' → 'readReplica').
+     *
+     * @param segment - SNAKE_CASE or kebab-case name segment
+     * @returns camelCase key
+     */
+    private static toCamelCase(segment: string): string {
+        return segment.toLowerCase().replace(/[_-]+([a-z0-9])/g, (_match, char: string) => char.toUpperCase());
+    }
+
+    /**
+     * Apply a value read from a single environment variable: strings, numbers, booleans, bigints,
+     * Dates, RegExps, custom types and null/undefined defaults.
+     *
+     * Empty values of top-level properties are applied; for nested properties and array elements
+     * an empty value means "not set" and the default is kept.
+     *
+     * @param holder - Object or array that owns the property
+     * @param key - Property key or array index
+     * @param envVarName - Environment variable name
+     * @param source - How the value is applied (for provenance)
+     * @param ctx - Parse context of the holder
+     */
+    private static applyPrimitive(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        targetOrClass: any,
+        holder: any,
+        key: string | number,
+        envVarName: string,
+        source: ProvenanceSource,
+        ctx: ParseContext
+    ): void {
+        const path = this.propertyPath(ctx, key);
+        const envValue = this.lookup(ctx, envVarName, path);
+        if (envValue === undefined || (envValue === '' && source !== 'env')) {
+            return;
+        }
+        if (envValue !== '') {
+            this.markSupplied(ctx, path, envVarName, source);
+        }
+        const coerced = this.coerceChecked(ctx, envVarName, path, envValue, holder[key]);
+        if (coerced !== undefined) {
+            holder[key] = coerced;
+        }
+    }
+
+    /**
+     * Apply environment variables to a single property, based on the type of its current value.
+     * This is the recursive walker behind top-level properties, nested objects, class instances and
+     * array elements, so every type is read the same way at any depth.
+     *
+     * @param holder - Object or array that owns the property
+     * @param key - Property key or array index
+     * @param names - Naming path of the property (e.g., ['APP', 'servers', '0', 'host'])
+     * @param source - How a value from the property's own variable is applied: 'env' for top-level
+     * properties, 'dot-notation' for nested properties and array elements
+     * @param ctx - Parse context of the holder
+     */
+    private static applyProperty(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        options?: ParseOptions<any>
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    ): any {
-        // Use provided options or default to empty object
-        const opts = options || {};
+        holder: any,
+        key: string | number,
+        names: string[],
+        source: ProvenanceSource,
+        ctx: ParseContext
+    ): void {
+        const value: unknown = holder[key];
+        const envVarName = ctx.naming(names);
+        const recordTemplate = this.declaredForPath(ctx.records, this.propertyPath(ctx, key));
+
+        if (recordTemplate !== undefined) {
+            this.applyRecord(holder, key, names, recordTemplate, ctx);
+        } else if (Array.isArray(value)) {
+            this.applyArray(holder, key, names, source, ctx);
+        } else if (value instanceof URL) {
+            holder[key] = this.applyUrl(value, names, this.propertyPath(ctx, key), source, ctx);
+        } else if (value instanceof Map || value instanceof Set) {
+            holder[key] = this.applyCollection(value, envVarName, this.propertyPath(ctx, key), source, ctx);
+        } else if (this.isPrimitiveValue(value, ctx)) {
+            this.applyPrimitive(holder, key, envVarName, source, ctx);
+        } else {
+            // Plain objects are cloned so shared defaults are not mutated; class instances are populated in place
+            const object = this.isPlainObject(value) ? this.cloneValue(value as object) : value as object;
+            this.applyObject(object, names, this.childContext(ctx, key));
+            holder[key] = object;
+        }
+    }
 
-        // Default sources if not specified
-        if (!opts.sources) {
-            opts.sources = ['env', '.env'];
+    /**
+     * Populate an object (plain object, class instance or array element): first from JSON in its
+     * own variable, then from a variable per property, which takes precedence over JSON.
+     *
+     * @param object - Object to populate
+     * @param names - Naming path of the object (e.g., ['APP', 'database'])
+     * @param ctx - Parse context of the object
+     */
+    private static applyObject(object: object, names: string[], ctx: ParseContext): void {
+        this.applyJsonObject(object, ctx.naming(names), ctx.env, ctx);
+        this.applyProperties(object, names, ctx);
+    }
+
+    /**
+     * Apply dot-notation variables (`<NAME>_<PROPERTY>`) to every own property of an object.
+     *
+     * @param object - Object to populate
+     * @param names - Naming path of the object, or [] for unprefixed names
+     * @param ctx - Parse context of the object
+     */
+    private static applyProperties(object: object, names: string[], ctx: ParseContext): void {
+        for (const key in object) {
+            if (!Object.prototype.hasOwnProperty.call(object, key)) {
+                continue;
+            }
+            this.applyProperty(object, key, [...names, key], 'dot-notation', ctx);
         }
+    }
 
-        // Load and merge environment variables from all sources
-        // sources is guaranteed to be defined by the logic above
-        const mergedEnv = this.loadSources(opts.sources!, opts.envFileParser);
+    /**
+     * Apply a record property: entries from a JSON object in its own variable first, then entries
+     * discovered from variable names (`<NAME>_<KEY>_...`), each parsed from a copy of the template.
+     * Entries of the default are kept, and updated when they are supplied.
+     *
+     * @param holder - Object or array that owns the record
+     * @param key - Property key or array index
+     * @param names - Naming path of the record (e.g., ['APP', 'databases'])
+     * @param template - Template of one entry
+     * @param ctx - Parse context of the holder
+     */
+    private static applyRecord(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        holder: any,
+        key: string | number,
+        names: string[],
+        template: unknown,
+        ctx: ParseContext
+    ): void {
+        const envVarName = ctx.naming(names);
+        const current: unknown = holder[key];
+        const record: Record<string, unknown> = this.isPlainObject(current) ? this.cloneValue(current as Record<string, unknown>) : {};
+        const recordCtx = this.childContext(ctx, key);
+        const path = recordCtx.path.join('.');
+        const isObjectEntry = !this.isPrimitiveValue(template, ctx) && !Array.isArray(template) &&
+            !(template instanceof Map) && !(template instanceof Set);
+
+        const envValue = this.lookup(ctx, envVarName, path);
+        if (envValue) {
+            let parsed: unknown;
+            try {
+                parsed = this.parseJson(envValue);
+            } catch {
+                parsed = undefined;
+            }
 
-        // Runtime detection: is it a constructor function or a plain object?
-        if (typeof targetOrClass === 'function') {
-            // Class constructor path - create instance and parse it
-            const instance = new targetOrClass();
-            this.parseObject(instance, opts.prefix || '', opts.overrides, mergedEnv);
-            return instance;
-        } else {
-            // Plain object path - parse and return it
-            this.parseObject(targetOrClass, opts.prefix || '', opts.overrides, mergedEnv);
-            return targetOrClass;
+            if (this.isPlainObject(parsed)) {
+                ctx.logger.debug(`${envVarName} parsed as JSON object for "${path}"`);
+                this.markSupplied(ctx, path, envVarName, 'json', parsed);
+                for (const [entryKey, element] of Object.entries(parsed as Record<string, unknown>)) {
+                    const entryPath = `${path}.${entryKey}`;
+                    const entry = Object.prototype.hasOwnProperty.call(record, entryKey) ? record[entryKey] : this.cloneValue(template);
+                    if (!isObjectEntry) {
+                        record[entryKey] = this.reviveJson(element, entry, envVarName, entryPath, ctx);
+                    } else if (this.isPlainObject(element)) {
+                        // Object entries are merged, like JSON for nested objects
+                        record[entryKey] = Object.assign(entry as object, this.reviveJson(element, entry, envVarName, entryPath, ctx));
+                    } else {
+                        this.report(ctx, {
+                            envVar: envVarName,
+                            path: entryPath,
+                            value: JSON.stringify(element) ?? String(element),
+                            expected: 'JSON object',
+                            message: `Invalid ${envVarName} format. Expected JSON object for "${entryPath}".`
+                        });
+                    }
+                }
+            } else {
+                this.report(ctx, {
+                    envVar: envVarName,
+                    path,
+                    value: envValue,
+                    expected: 'JSON object',
+                    message: `Invalid ${envVarName} format. Expected JSON object.`
+                });
+            }
+        }
+
+        // Variables per entry take precedence over JSON. Names of sibling properties that extend
+        // the record's name (databasesBackup → APP_DATABASES_BACKUP) belong to those properties
+        const siblings = Array.isArray(holder) ? [] : Object.keys(holder)
+            .filter(sibling => sibling !== key)
+            .map(sibling => [...names.slice(0, -1), sibling]);
+        const entryKeys = this.detectRecordKeys(names, template, siblings, ctx);
+        if (entryKeys.size > 0) {
+            ctx.logger.debug(`${envVarName} found record keys ${[...entryKeys.keys()].join(', ')} for "${path}"`);
         }
+        for (const [entryKey, envKey] of entryKeys) {
+            if (!Object.prototype.hasOwnProperty.call(record, entryKey)) {
+                record[entryKey] = this.cloneValue(template);
+            }
+            this.applyProperty(record, entryKey, [...names, envKey], 'dot-notation', recordCtx);
+        }
+
+        holder[key] = record;
     }
 
     /**
-     * Parse environment variables and apply them to the target object.
-     * This is an internal method that performs the actual parsing logic.
-     *
-     * @param target - Object to populate from environment variables
-     * @param prefix - Optional environment variable prefix (e.g., 'DB', 'APP', 'REDIS'). Defaults to empty string.
-     * @param overrides - Optional custom parsers for specific properties
-     * @param envSource - Source of environment variables (defaults to process.env)
+     * Scan environment variables for record keys, the way {@link AutoEnvParse.detectArrayIndices}
+     * scans for array indices. The key is the part of the name before a property of the template
+     * (`APP_DATABASES_READ_REPLICA_HOST` → 'READ_REPLICA' for a template with `host`), or the rest
+     * of the name for other templates. For object templates, names without a template property
+     * only count when their value is a JSON object (`APP_DATABASES_PRIMARY='{"host":"db1"}'`), so
+     * typos are left for the unknown variables check. Empty values, names that were already looked
+     * up and names of sibling properties are ignored.
+     *
+     * @param names - Naming path of the record (e.g., ['APP', 'databases'])
+     * @param template - Template of one entry
+     * @param siblings - Naming paths of the record's sibling properties
+     * @param ctx - Parse context (for the environment, naming strategy and custom types)
+     * @returns Env var key segments by camelCase record key, in name order
      */
-    private static parseObject<T extends object>(
-        target: T,
-        prefix: string = '',
-        overrides?: Map<string, (target: T, envVarName: string) => void>,
-        envSource: Record<string, string> = process.env as Record<string, string>
-    ): void {
-        // Validate prefix format if provided
-        if (prefix && !/^[A-Z0-9]+$/.test(prefix)) {
-            throw new Error(`Invalid prefix "${prefix}". Use uppercase letters and numbers only.`);
+    private static detectRecordKeys(
+        names: string[],
+        template: unknown,
+        siblings: string[][],
+        ctx: ParseContext
+    ): Map<string, string> {
+        let suffixes: Array<string | RegExp> = [];
+        const isObjectEntry = !this.isPrimitiveValue(template, ctx) && !Array.isArray(template) &&
+            !(template instanceof Map) && !(template instanceof Set);
+        if (template instanceof URL) {
+            suffixes = [...this.urlComponents];
+        } else if (Array.isArray(template)) {
+            suffixes = [/\d+/];
+        } else if (isObjectEntry) {
+            suffixes = Object.keys(template as object);
         }
-
-        for (const key in target) {
-            if (!Object.prototype.hasOwnProperty.call(target, key)) {
+        const entry = this.namePattern(ctx, [...names, /.+/]);
+        const patterns = suffixes.flatMap(suffix => [
+            this.namePattern(ctx, [...names, /.+/, suffix]),
+            this.namePattern(ctx, [...names, /.+/, suffix], true)
+        ]);
+        const claimed = siblings.flatMap(sibling => [this.namePattern(ctx, sibling), this.namePattern(ctx, sibling, true)]);
+
+        const keys = new Map<string, string>();
+        for (const name of Object.keys(ctx.env).sort()) {
+            const rest = name.match(entry)?.[1];
+            if (rest === undefined || ctx.env[name] === '' || ctx.known.has(name) || claimed.some(pattern => pattern.test(name))) {
                 continue;
             }
-
-            // Calculate env var name once
-            const envVarName = this.buildEnvVarName(prefix, key);
-
-            // Check if there's a custom override for this property
-            if (overrides?.has(key)) {
-                overrides.get(key)!(target, envVarName);
-                continue;
+            // The longest match wins, so keys may contain property names (APP_HOSTS_MAIN_HOST_HOST)
+            let envKey: string | undefined;
+            for (const pattern of patterns) {
+                const match = name.match(pattern);
+                if (match && (envKey === undefined || match[1].length > envKey.length)) {
+                    envKey = match[1];
+                }
             }
-
-            const value = target[key];
-
-            // Handle different types
-            if (value === null || value === undefined) {
-                // For null/undefined, try to load as string if env var exists
-                this.applyPrimitive(target, key, envVarName, envSource);
-            } else if (Array.isArray(value)) {
-                this.applyArray(target, key, envVarName, envSource);
-            } else if (this.isPlainObject(value)) {
-                // Plain object - use nested parsing
-                this.applyNestedObject(target, key, envVarName, envSource);
-            } else if (typeof value === 'object') {
-                // Complex object (class instance)
-                this.applyComplexObject(key, envVarName, value, envSource);
-            } else {
-                // Primitives (string, number, boolean)
-                this.applyPrimitive(target, key, envVarName, envSource);
+            if (envKey === undefined && (!isObjectEntry || ctx.env[name].trim().startsWith('{'))) {
+                envKey = rest;
+            }
+            if (envKey && !keys.has(this.toCamelCase(envKey))) {
+                keys.set(this.toCamelCase(envKey), envKey);
             }
         }
+        return keys;
     }
 
     /**
-     * Check if a value is a plain object (not an array, class instance, or null).
-     * Works across realms (iframes, vm contexts, etc.)
+     * Scan environment variables for array indices.
+     * Returns sorted array of indices found in env vars named after an element property
+     * ({name}_{index}_*), or after the element itself for arrays of primitives ({name}_{index}),
+     * using the configured naming strategy. Empty element values are ignored.
      *
-     * @param value - Value to check
-     * @returns True if value is a plain object
+     * @param names - Naming path of the array (e.g., ['APP', 'servers'])
+     * @param ctx - Parse context (for the environment and naming strategy)
+     * @param primitive - Match whole element variables instead of element properties
+     * @returns Sorted array of indices (e.g., [0, 1, 3] for sparse array)
      */
-    private static isPlainObject(value: unknown): boolean {
-        if (typeof value !== 'object' || value === null) {
-            return false;
+    private static detectArrayIndices(names: string[], ctx: ParseContext, primitive = false): number[] {
+        const indices = new Set<number>();
+        const pattern = this.namePattern(ctx, [...names, /\d+/], !primitive);
+
+        for (const key in ctx.env) {
+            const match = key.match(pattern);
+            if (match && !(primitive && ctx.env[key] === '')) {
+                indices.add(parseInt(match[1], 10));
+            }
         }
-        const proto = Object.getPrototypeOf(value);
-        return proto === null || proto === Object.prototype;
+
+        // Return sorted indices for compact array (handles sparse arrays)
+        return Array.from(indices).sort((a, b) => a - b);
     }
 
     /**
-     * Create and populate an instance from a class constructor.
-     *
-     * This method instantiates a class and populates it from environment variables.
-     * Perfect for when you already have classes with default values defined.
-     *
-     * @param classConstructor - Class constructor function with default values
-     * @param prefix - Optional environment variable prefix. Defaults to empty string.
-     * @param overrides - Optional custom parsers for specific properties
-     * @returns New instance of the class populated from environment variables
-     *
-     * @example
-     * ```typescript
-     * class DatabaseConfig {
-     *     host = 'localhost';
-     *     port = 5432;
-     *     ssl = false;
-     * }
-     *
-     * // Environment: DB_HOST=prod.example.com, DB_PORT=5433, DB_SSL=true
-     * const config = AutoEnvParse.createFrom(DatabaseConfig, 'DB');
-     * // config is instance of DatabaseConfig with env values applied
-     * ```
-     *
-     * @example
-     * ```typescript
-     * class AppConfig {
-     *     nodeEnv = 'development';
-     *     port = 3000;
-     *     debug = false;
-     * }
+     * Check whether a value is read from a single variable (strings, numbers, booleans, bigints,
+     * Dates, URLs, RegExps, custom types, null/undefined) rather than from properties or elements.
      *
-     * // Environment: NODE_ENV=production, PORT=8080, DEBUG=true
-     * const config = AutoEnvParse.createFrom(AppConfig); // No prefix
-     * ```
+     * @param value - Current value or array element template
+     * @param ctx - Parse context (for registered custom types)
+     * @returns True for primitive values
      */
-    static createFrom<T extends { new(): object }>(
-        classConstructor: T,
-        prefix?: string,
-        overrides?: Map<string, (target: InstanceType<T>, envVarName: string) => void>
-    ): InstanceType<T> {
-        const instance = new classConstructor() as InstanceType<T>;
-        this.parseObject(instance, prefix, overrides);
-        return instance;
+    private static isPrimitiveValue(value: unknown, ctx: ParseContext): boolean {
+        return typeof value !== 'object' || value === null || value instanceof Date || value instanceof URL ||
+            value instanceof RegExp || this.findCoercer(ctx, value) !== undefined;
+    }
+
+    /**
+     * Resolve a URL property: the whole URL from its own variable, then individual
+     * components from `<NAME>_PROTOCOL`, `<NAME>_HOST`, `<NAME>_PORT` and `<NAME>_PATHNAME`.
+     * Malformed values are reported and leave the URL unchanged.
+     *
+     * @param current - Current (default) URL
+     * @param names - Naming path of the URL
+     * @param path - Property path
+     * @param source - How a value from the URL's own variable is applied (for provenance)
+     * @param ctx - Parse context
+     * @returns New URL with all supplied values applied
+     */
+    private static applyUrl(current: URL, names: string[], path: string, source: ProvenanceSource, ctx: ParseContext): URL {
+        const envVarName = ctx.naming(names);
+        let url = new URL(current.href);
+
+        const envValue = this.lookup(ctx, envVarName, path);
+        if (envValue !== undefined && envValue !== '') {
+            this.markSupplied(ctx, path, envVarName, source);
+            const parsed = this.coerceChecked(ctx, envVarName, path, envValue, current);
+            if (parsed instanceof URL) {
+                url = parsed;
+            }
+        }
+
+        for (const component of this.urlComponents) {
+            const componentVarName = ctx.naming([...names, component]);
+            const componentValue = this.lookup(ctx, componentVarName, path);
+            if (componentValue === undefined || componentValue === '') {
+                continue;
+            }
+
+            this.markSupplied(ctx, path, componentVarName, 'dot-notation');
+            if (!this.setUrlComponent(url, component, componentValue.trim())) {
+                this.report(ctx, {
+                    envVar: componentVarName,
+                    path,
+                    value: componentValue,
+                    expected: `URL ${component}`,
+                    message: `Invalid URL ${component} value for ${componentVarName}: "${componentValue}"`
+                }, ctx.strict ? 'error' : 'warning');
+            }
+        }
+
+        return url;
     }
 
     /**
-     * Build environment variable name from prefix and property key.
+     * Set a URL component, checking values the URL setters would silently ignore.
      *
-     * @param prefix - Optional prefix (empty string if not provided)
-     * @param key - Property key
-     * @returns Environment variable name (e.g., 'DB_HOST' or 'HOST')
+     * @param url - URL to modify
+     * @param component - Component to set
+     * @param value - New component value
+     * @returns True if the component was set
      */
-    private static buildEnvVarName(prefix: string, key: string): string {
-        const snakeKey = this.toSnakeCase(key).toUpperCase();
-        return prefix ? `${prefix}_${snakeKey}` : snakeKey;
+    private static setUrlComponent(url: URL, component: typeof this.urlComponents[number], value: string): boolean {
+        switch (component) {
+            case 'protocol': {
+                const protocol = value.toLowerCase().replace(/:?$/, ':');
+                if (!/^[a-z][a-z\d+.-]*:$/.test(protocol)) {
+                    return false;
+                }
+                url.protocol = protocol;
+                // Switching between special (http) and non-special (foo) schemes is ignored
+                return url.protocol === protocol;
+            }
+            case 'host': {
+                let probe: URL;
+                try {
+                    probe = new URL(`http://${value}`);
+                } catch {
+                    return false;
+                }
+                if (probe.pathname !== '/' || probe.username || probe.search || probe.hash || value.includes('/')) {
+                    return false;
+                }
+                url.host = value;
+                return true;
+            }
+            case 'port': {
+                if (!/^\d+$/.test(value) || Number(value) > 65535) {
+                    return false;
+                }
+                url.port = value;
+                return true;
+            }
+            case 'pathname':
+                url.pathname = value;
+                return true;
+        }
     }
 
     /**
-     * Apply primitive value from environment variable.
+     * Resolve a Map or Set property from its environment variable.
      *
-     * Handles string, number, and boolean types with automatic type coercion.
+     * Sets accept a JSON array or a comma-separated list (`a,b,c`), Maps a JSON object or
+     * `key=value` pairs (`a=1,b=2`). Keys and elements are coerced to the types of the
+     * first existing entry, like array elements use the first element as a template.
      *
-     * @param target - Target object
-     * @param key - Property key
+     * @param current - Current (default) Map or Set
      * @param envVarName - Environment variable name
-     * @param envSource - Source of environment variables
+     * @param path - Property path
+     * @param source - How the value is applied (for provenance)
+     * @param ctx - Parse context
+     * @returns New collection, or the current one if the variable is unset or malformed
      */
-    private static applyPrimitive<T extends object, K extends keyof T>(
-        target: T,
-        key: K,
+    private static applyCollection<C extends Map<unknown, unknown> | Set<unknown>>(
+        current: C,
         envVarName: string,
-        envSource: Record<string, string>
-    ): void {
-        const envValue = envSource[envVarName];
-        if (envValue !== undefined) {
-            const currentValue = target[key];
-            const valueType = currentValue === null || currentValue === undefined
-                ? 'string'
-                : typeof currentValue;
-            target[key] = this.coerceValue(envValue, valueType) as T[K];
+        path: string,
+        source: ProvenanceSource,
+        ctx: ParseContext
+    ): C {
+        const envValue = this.lookup(ctx, envVarName, path);
+        if (envValue === undefined || envValue === '') {
+            return current;
+        }
+
+        const trimmed = envValue.trim();
+        const isJson = /^[[{]/.test(trimmed);
+        this.markSupplied(ctx, path, envVarName, isJson ? 'json' : source);
+
+        let parsed: unknown;
+        if (isJson) {
+            try {
+                parsed = this.parseJson(trimmed);
+            } catch {
+                parsed = undefined;
+            }
+        } else if (current instanceof Set) {
+            parsed = this.splitList(envValue, this.listFormat(ctx, path));
+        } else {
+            parsed = this.parsePairs(trimmed);
+        }
+
+        const collection = parsed === undefined ? undefined : this.toCollection(parsed, current, envVarName, path, ctx);
+        if (collection === current) {
+            // An invalid entry was reported, so the default is kept
+            return current;
+        }
+        if (!collection) {
+            const expected = current instanceof Set
+                ? `JSON array or ${this.describeList(this.listFormat(ctx, path))}`
+                : 'JSON object or key=value list';
+            this.report(ctx, {
+                envVar: envVarName,
+                path,
+                value: envValue,
+                expected,
+                message: `Invalid ${envVarName} format. Expected ${expected}.`
+            });
+            return current;
         }
+
+        ctx.logger.debug(`${envVarName} parsed as ${current instanceof Set ? 'Set' : 'Map'} for "${path}"`);
+        return collection as C;
     }
 
     /**
-     * Scan environment variables for array indices.
-     * Returns sorted array of indices found in env vars matching pattern: {envVarName}_{index}_*
+     * Parse `key=value` pairs separated by commas.
      *
-     * @param envVarName - Base environment variable name (e.g., 'APP_SERVERS')
-     * @param envSource - Source of environment variables
-     * @returns Sorted array of indices (e.g., [0, 1, 3] for sparse array)
+     * @param value - Raw value (e.g., 'tenant-a=100,tenant-b=250')
+     * @returns Parsed pairs, or undefined if an entry has no key
      */
-    private static detectArrayIndices(envVarName: string, envSource: Record<string, string>): number[] {
-        const indices = new Set<number>();
-        const pattern = new RegExp(`^${envVarName}_(\\d+)_`, 'i');
+    private static parsePairs(value: string): Record<string, string> | undefined {
+        const pairs: Record<string, string> = {};
+        for (const entry of value.split(',')) {
+            if (entry.trim() === '') {
+                continue;
+            }
+            const eqIndex = entry.indexOf('=');
+            if (eqIndex <= 0 || entry.substring(0, eqIndex).trim() === '') {
+                return undefined;
+            }
+            pairs[entry.substring(0, eqIndex).trim()] = entry.substring(eqIndex + 1).trim();
+        }
+        return pairs;
+    }
 
-        for (const key in envSource) {
-            const match = key.match(pattern);
-            if (match) {
-                indices.add(parseInt(match[1], 10));
+    /**
+     * Build a Map or Set from parsed entries, coercing keys and elements to the types of
+     * the template's first entry. Invalid entries are reported, and the template is kept.
+     *
+     * @param parsed - Array (for Sets) or object (for Maps)
+     * @param template - Default collection
+     * @param envVarName - Environment variable name (for issue reporting)
+     * @param path - Property path of the collection
+     * @param ctx - Parse context
+     * @returns New collection, the template if an entry is invalid, or undefined if parsed has the wrong shape
+     */
+    private static toCollection(
+        parsed: unknown,
+        template: Map<unknown, unknown> | Set<unknown>,
+        envVarName: string,
+        path: string,
+        ctx: ParseContext
+    ): Map<unknown, unknown> | Set<unknown> | undefined {
+        if (template instanceof Set) {
+            if (!Array.isArray(parsed)) {
+                return undefined;
             }
+            const [elementTemplate] = template;
+            const result = new Set<unknown>();
+            let valid = true;
+            parsed.forEach((element, index) => {
+                const converted = this.convertEntry(element, elementTemplate, envVarName, `${path}.${index}`, ctx);
+                if (converted === undefined) {
+                    valid = false;
+                } else {
+                    result.add(converted);
+                }
+            });
+            return valid ? result : template;
         }
 
-        // Return sorted indices for compact array (handles sparse arrays)
-        return Array.from(indices).sort((a, b) => a - b);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            return undefined;
+        }
+        const [entryTemplate] = template;
+        const result = new Map<unknown, unknown>();
+        let valid = true;
+        for (const [rawKey, rawValue] of Object.entries(parsed)) {
+            const key = this.convertEntry(rawKey, entryTemplate?.[0], envVarName, `${path}.${rawKey}`, ctx);
+            const value = this.convertEntry(rawValue, entryTemplate?.[1], envVarName, `${path}.${rawKey}`, ctx);
+            if (key === undefined || value === undefined) {
+                valid = false;
+            } else {
+                result.set(key, value);
+            }
+        }
+        return valid ? result : template;
+    }
+
+    /**
+     * Coerce a collection key or element to the type of its template.
+     * Without a template, values are kept as parsed.
+     *
+     * @param value - Parsed key or element (string, or any JSON value)
+     * @param template - Existing key or element used for type inference
+     * @param envVarName - Environment variable name (for issue reporting)
+     * @param path - Property path (for issue reporting)
+     * @param ctx - Parse context
+     * @returns Coerced value, or undefined if it is invalid
+     */
+    private static convertEntry(value: unknown, template: unknown, envVarName: string, path: string, ctx: ParseContext): unknown {
+        if (typeof value === 'object' && value !== null) {
+            return this.reviveJson(value, template, envVarName, path, ctx);
+        }
+        if (template === undefined || template === null) {
+            return value;
+        }
+        return this.coerceChecked(ctx, envVarName, path, String(value), template);
     }
 
     /**
-     * Parse array element from environment variables using dot-notation.
-     * Recursively applies parsing to nested objects within array elements.
+     * Parse a delimited list value into an array, coercing each entry to the template element's type.
+     * Entries that fail coercion are reported and keep the template value.
      *
-     * @param envVarName - Base environment variable name for this array element
-     * @param template - Template object to clone and populate
-     * @param envSource - Source of environment variables
-     * @returns Parsed array element
+     * @param template - Array element template
+     * @param value - Raw value (e.g., '80, 443')
+     * @param envVarName - Environment variable name
+     * @param path - Property path of the array
+     * @param source - How the value is applied (for provenance)
+     * @param ctx - Parse context
+     * @returns Parsed array, or undefined if the value is malformed
      */
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    private static parseArrayElement(envVarName: string, template: any, envSource: Record<string, string>): any {
-        // Clone template to avoid mutating original
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let element: any;
+    private static applyList(
+        template: unknown,
+        value: string,
+        envVarName: string,
+        path: string,
+        source: ProvenanceSource,
+        ctx: ParseContext
+    ): unknown[] | undefined {
+        const format = this.listFormat(ctx, path);
+        const entries = this.splitList(value, format);
+        if (!entries) {
+            const expected = `JSON array or ${this.describeList(format)}`;
+            this.report(ctx, { envVar: envVarName, path, value, expected, message: `Invalid ${envVarName} format. Expected ${expected}.` });
+            return undefined;
+        }
 
-        if (typeof template === 'object' && template !== null && !Array.isArray(template)) {
-            // Object element - clone and recursively parse
-            element = JSON.parse(JSON.stringify(template));
+        ctx.logger.debug(`${envVarName} parsed as list for "${path}"`);
+        this.markSupplied(ctx, path, envVarName, source);
+        return entries.map((entry, index) => {
+            const coerced = this.coerceChecked(ctx, envVarName, `${path}.${index}`, entry, template);
+            return coerced === undefined ? this.cloneValue(template) : coerced;
+        });
+    }
 
-            // Use recursive helper to parse all nested properties
-            this.parseObjectPropertiesRecursive(element, envVarName, template, envSource);
-        } else {
-            // Primitive or array - keep template value
-            element = template;
+    /**
+     * Resolve the list format for a property: defaults, then the global `lists` settings,
+     * then the settings declared for the property path.
+     *
+     * @param ctx - Parse context
+     * @param path - Property path
+     * @returns Complete list format
+     * @throws {Error} If the separator is empty
+     */
+    private static listFormat(ctx: ParseContext, path: string): Required<ListFormat> {
+        const { properties, ...global } = ctx.lists ?? {};
+        const format: Required<ListFormat> = { separator: ',', trim: true, empty: 'skip', ...global, ...this.declaredForPath(properties, path) };
+        if (format.separator === '') {
+            throw new Error(`Invalid list separator for "${path}". The separator must not be empty.`);
         }
+        return format;
+    }
 
-        return element;
+    /**
+     * Describe a list format for error messages (e.g., 'comma-separated list').
+     *
+     * @param format - List format
+     * @returns Description
+     */
+    private static describeList(format: Required<ListFormat>): string {
+        return format.separator === ',' ? 'comma-separated list' : `"${format.separator}"-separated list`;
     }
 
     /**
-     * Recursively parse object properties from environment variables.
-     * Helper method used by parseArrayElement for deep nesting support.
+     * Split a delimited list into entries. Entries wrapped in double or single quotes keep
+     * separators and whitespace, and are kept even when empty.
      *
-     * @param target - Target object to populate
-     * @param envVarName - Base environment variable name
-     * @param template - Template object for type inference
-     * @param envSource - Source of environment variables
+     * @param value - Raw value (e.g., 'a.com, "b,c", d.com')
+     * @param format - List format
+     * @returns Entries, or undefined for an unterminated quote, text after a closing quote,
+     * or an empty entry when empty entries are rejected
      */
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    private static parseObjectPropertiesRecursive(target: any, envVarName: string, template: any, envSource: Record<string, string>): void {
-        for (const key in target) {
-            if (!Object.prototype.hasOwnProperty.call(target, key)) {
-                continue;
+    private static splitList(value: string, format: Required<ListFormat>): string[] | undefined {
+        const { separator, trim, empty } = format;
+        const entries: string[] = [];
+        let position = 0;
+
+        for (;;) {
+            let start = position;
+            while (start < value.length && /\s/.test(value[start]) && !value.startsWith(separator, start)) {
+                start++;
             }
 
-            const templateValue = template[key];
-            const snakeKey = this.toSnakeCase(key).toUpperCase();
-            const propertyEnvVarName = `${envVarName}_${snakeKey}`;
-            const propertyEnvValue = envSource[propertyEnvVarName];
+            let next: number;
+            if (value[start] === '"' || value[start] === "'") {
+                const close = value.indexOf(value[start], start + 1);
+                if (close === -1) {
+                    return undefined;
+                }
+                entries.push(value.substring(start + 1, close));
+                next = close + 1;
+                while (next < value.length && /\s/.test(value[next]) && !value.startsWith(separator, next)) {
+                    next++;
+                }
+                if (next < value.length && !value.startsWith(separator, next)) {
+                    return undefined;
+                }
+            } else {
+                const end = value.indexOf(separator, position);
+                next = end === -1 ? value.length : end;
+                const entry = trim ? value.substring(position, next).trim() : value.substring(position, next);
+                if (entry !== '' || empty === 'keep') {
+                    entries.push(entry);
+                } else if (empty === 'error') {
+                    return undefined;
+                }
+            }
 
-            if (typeof templateValue === 'object' && templateValue !== null && !Array.isArray(templateValue)) {
-                // Nested object - recurse
-                this.parseObjectPropertiesRecursive(target[key], propertyEnvVarName, templateValue, envSource);
-            } else if (propertyEnvValue !== undefined && propertyEnvValue !== '') {
-                // Primitive value - apply coercion
-                target[key] = this.coerceValue(propertyEnvValue, typeof templateValue);
+            if (next >= value.length) {
+                return entries;
             }
+            position = next + separator.length;
         }
     }
 
@@ -423,174 +2769,263 @@ export class AutoEnvParse {
      * Supports both dot-notation and JSON formats. Dot-notation takes priority.
      * For dot-notation: APP_SERVERS_0_HOST=value, APP_SERVERS_1_HOST=value
      * For JSON: APP_SERVERS='[{"host":"value"}]'
+     * Arrays of primitives also accept a delimited list: APP_PORTS=80,443
      *
-     * Handles special cases like RegExp arrays (JSON only).
+     * RegExp arrays accept indexed variables and JSON, but no delimited list (patterns often contain commas).
      * Note: RegExp detection only checks if ALL elements in the default array are RegExp instances.
      *
-     * @param target - Target object
-     * @param key - Property key
-     * @param envVarName - Environment variable name
-     * @param envSource - Source of environment variables
+     * @param holder - Object or array that owns the array
+     * @param key - Property key or array index
+     * @param names - Naming path of the array
+     * @param source - How a delimited list from the array's own variable is applied (for provenance)
+     * @param ctx - Parse context of the holder
      */
-    private static applyArray<T extends object, K extends keyof T>(
-        target: T,
-        key: K,
-        envVarName: string,
-        envSource: Record<string, string>
+    private static applyArray(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        holder: any,
+        key: string | number,
+        names: string[],
+        source: ProvenanceSource,
+        ctx: ParseContext
     ): void {
-        const currentArray = target[key];
+        const envVarName = ctx.naming(names);
+        const currentArray: unknown = holder[key];
+        const path = this.propertyPath(ctx, key);
+        ctx.known.add(envVarName);
         if (!Array.isArray(currentArray) || currentArray.length === 0) {
             // Empty array - skip (no template to infer from)
             return;
         }
 
-        // Check if this is a RegExp array (only support JSON for RegExp)
+        // Check if this is a RegExp array (no delimited lists for RegExp)
         const isRegExpArray = currentArray.every(item => item instanceof RegExp);
 
-        // Try dot-notation first (unless RegExp array)
-        if (!isRegExpArray) {
-            const indices = this.detectArrayIndices(envVarName, envSource);
-            if (indices.length > 0) {
-                // Dot-notation found - parse array elements
-                const template = currentArray[0];
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const newArray: any[] = [];
-
-                for (const index of indices) {
-                    const elementEnvVarName = `${envVarName}_${index}`;
-                    const element = this.parseArrayElement(elementEnvVarName, template, envSource);
-                    newArray.push(element);
-                }
-
-                target[key] = newArray as T[K];
-                return;
+        // Try dot-notation first
+        const indices = this.detectArrayIndices(names, ctx, this.isPrimitiveValue(currentArray[0], ctx));
+        if (indices.length > 0) {
+            // Dot-notation found - parse array elements
+            ctx.logger.debug(`${envVarName} found array indices ${indices.join(', ')} for "${path}"`);
+            const template = currentArray[0];
+            const arrayCtx = this.childContext(ctx, key);
+            const newArray: unknown[] = [];
+
+            // Each element starts as a copy of the template and is walked like any other property
+            for (const index of indices) {
+                newArray.push(this.cloneValue(template));
+                this.applyProperty(newArray, newArray.length - 1, [...names, String(index)], 'dot-notation', arrayCtx);
             }
+
+            holder[key] = newArray;
+            return;
         }
 
-        // Fall back to JSON parsing (existing behavior)
-        const envValue = envSource[envVarName];
-        if (envValue) {
+        // Fall back to JSON parsing (existing behavior), or a delimited list for primitive elements
+        const envValue = this.lookup(ctx, envVarName, path);
+        const acceptsList = !isRegExpArray && this.isPrimitiveValue(currentArray[0], ctx);
+        if (envValue && acceptsList && !envValue.trim().startsWith('[')) {
+            const elements = this.applyList(currentArray[0], envValue, envVarName, path, source, ctx);
+            if (elements) {
+                holder[key] = elements;
+            }
+        } else if (envValue) {
+            let parsed: unknown;
             try {
-                const parsed = JSON.parse(envValue);
-                if (Array.isArray(parsed)) {
-                    // Handle special cases (like RegExp arrays)
-                    if (isRegExpArray) {
-                        target[key] = parsed.map(p => new RegExp(p)) as T[K];
-                    } else {
-                        target[key] = parsed as T[K];
-                    }
-                }
+                parsed = this.parseJson(envValue);
             } catch {
-                console.warn(`Warning: Invalid ${envVarName} format. Expected JSON array.`);
+                parsed = undefined;
+            }
+
+            if (Array.isArray(parsed)) {
+                ctx.logger.debug(`${envVarName} parsed as JSON array for "${path}"`);
+                this.markSupplied(ctx, path, envVarName, 'json', parsed);
+                holder[key] = this.reviveJson(parsed, currentArray, envVarName, path, ctx);
+            } else {
+                const expected = acceptsList
+                    ? `JSON array or ${this.describeList(this.listFormat(ctx, path))}`
+                    : 'JSON array';
+                this.report(ctx, {
+                    envVar: envVarName,
+                    path,
+                    value: envValue,
+                    expected,
+                    message: `Invalid ${envVarName} format. Expected ${expected}.`
+                });
             }
         }
     }
 
     /**
-     * Apply nested object from environment variable.
-     *
-     * Tries JSON parsing first, then falls back to dot-notation env vars.
-     * Dot-notation takes precedence over JSON for individual properties.
+     * Merge a JSON object from an environment variable into an existing object.
+     * Reports an issue if the value is not a valid JSON object.
      *
-     * @param target - Target object
-     * @param key - Property key
+     * @param value - Object to merge into
      * @param envVarName - Environment variable name
      * @param envSource - Source of environment variables
+     * @param ctx - Parse context for the object
      */
-    private static applyNestedObject<T extends object, K extends keyof T>(
-        target: T,
-        key: K,
+    private static applyJsonObject(
+        value: object,
         envVarName: string,
-        envSource: Record<string, string>
+        envSource: Record<string, string>,
+        ctx: ParseContext
     ): void {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const value = target[key] as any;
+        const envValue = this.lookup(ctx, envVarName, ctx.path.join('.'));
+        if (!envValue) {
+            return;
+        }
 
-        // Defensive check - should never happen if called correctly from parse()
-        if (!this.isPlainObject(value)) {
-            throw new Error(
-                `Internal error: applyNestedObject called with non-plain-object for key '${String(key)}'. ` +
-                `Expected plain object, got ${value === null ? 'null' : typeof value}`
-            );
+        let parsed: unknown;
+        try {
+            parsed = this.parseJson(envValue);
+        } catch {
+            parsed = undefined;
         }
 
-        // Try JSON first
-        const envValue = envSource[envVarName];
-        if (envValue) {
-            try {
-                const parsed = JSON.parse(envValue);
-                // Validate parsed value is an object before mutating
-                if (typeof parsed === 'object' && parsed !== null) {
-                    Object.assign(value, parsed);
-                }
-            } catch {
-                console.warn(`Warning: Invalid ${envVarName} JSON. Using dot-notation if available.`);
-            }
+        // Validate parsed value is an object before mutating
+        if (typeof parsed === 'object' && parsed !== null) {
+            ctx.logger.debug(`${envVarName} parsed as JSON object for "${ctx.path.join('.')}"`);
+            this.markSupplied(ctx, ctx.path.join('.'), envVarName, 'json', parsed);
+            Object.assign(value, this.reviveJson(parsed, value, envVarName, ctx.path.join('.'), ctx));
+        } else {
+            this.report(ctx, {
+                envVar: envVarName,
+                path: ctx.path.join('.'),
+                value: envValue,
+                expected: 'JSON object',
+                message: `Invalid ${envVarName} JSON. Using dot-notation if available.`
+            });
         }
-        // Then apply dot-notation (takes precedence)
-        target[key] = this.loadNestedFromEnv(envVarName, value, envSource) as T[K];
     }
 
     /**
-     * Apply complex object from environment variable.
-     *
-     * Handles objects like class instances with their own structure.
-     * Tries JSON parsing first, then recursively applies dot-notation for nested properties.
-     * Supports nested class instances and plain objects.
-     *
-     * @param key - Property key (used for error messages)
-     * @param envVarName - Environment variable name
-     * @param value - Current property value
-     * @param envSource - Source of environment variables
+     * Convert parsed JSON to the types of the matching defaults where JSON has no native
+     * representation (Dates are given as ISO-8601 strings or epoch numbers, URLs, durations and byte sizes
+     * as strings, bigints as strings or integers, Sets as arrays and Maps as objects). Properties with a
+     * declared type are coerced to it, and JSON null sets them to null. Integers outside the safe range are converted back to numbers
+     * unless the default is a bigint. Invalid values are reported and replaced by their default.
+     *
+     * @param parsed - Parsed JSON value
+     * @param template - Default value at the same position
+     * @param envVarName - Environment variable holding the JSON (for issue reporting)
+     * @param path - Property path of the value (for issue reporting)
+     * @param ctx - Parse context
+     * @returns Converted value
      */
-    private static applyComplexObject<K extends PropertyKey>(
-        key: K,
-        envVarName: string,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        value: any,
-        envSource: Record<string, string>
-    ): void {
-        // Defensive check - should never happen if called correctly from parse()
-        if (typeof value !== 'object' || value === null) {
-            throw new Error(
-                `Internal error: applyComplexObject called with non-object for key '${String(key)}'. ` +
-                `Expected object, got ${value === null ? 'null' : typeof value}`
-            );
+    private static reviveJson(parsed: unknown, template: unknown, envVarName: string, path: string, ctx: ParseContext): unknown {
+        if (this.declaredForPath(ctx.types, path) && (typeof parsed !== 'object' || parsed === null)) {
+            if (parsed === null) {
+                return null;
+            }
+            const coerced = this.coerceChecked(ctx, envVarName, path, String(parsed), template);
+            return coerced === undefined ? template : coerced;
         }
 
-        // Try JSON first
-        const envValue = envSource[envVarName];
-        if (envValue) {
-            try {
-                const parsed = JSON.parse(envValue);
-                // Validate parsed value is an object before mutating
-                if (typeof parsed === 'object' && parsed !== null) {
-                    Object.assign(value, parsed);
-                }
-            } catch {
-                console.warn(`Warning: Invalid ${envVarName} JSON. Using dot-notation if available.`);
+        if (typeof parsed === 'string' && (this.declaredForPath(ctx.durations, path, true) || this.declaredForPath(ctx.byteSizes, path, true))) {
+            return this.coerceChecked(ctx, envVarName, path, parsed, template) ?? template;
+        }
+
+        if (template instanceof Date || template instanceof URL || template instanceof RegExp || typeof template === 'bigint' ||
+            this.findCoercer(ctx, template)) {
+            const raw = typeof parsed === 'string' || typeof parsed === 'bigint' ? String(parsed) : JSON.stringify(parsed);
+            return this.coerceChecked(ctx, envVarName, path, raw, template) ?? template;
+        }
+
+        if (template instanceof Map || template instanceof Set) {
+            const collection = this.toCollection(parsed, template, envVarName, path, ctx);
+            if (!collection) {
+                const expected = template instanceof Set ? 'JSON array' : 'JSON object';
+                this.report(ctx, {
+                    envVar: envVarName,
+                    path,
+                    value: JSON.stringify(parsed, (_key, element) => typeof element === 'bigint' ? String(element) : element),
+                    expected,
+                    message: `Invalid ${envVarName} format. Expected ${expected} for "${path}".`
+                });
             }
+            return collection ?? template;
         }
 
-        // Recursively apply dot-notation for nested properties
-        for (const nestedKey in value) {
-            if (!Object.prototype.hasOwnProperty.call(value, nestedKey)) {
-                continue;
+        if (typeof parsed === 'bigint') {
+            return Number(parsed);
+        }
+
+        if (Array.isArray(parsed)) {
+            const elementTemplate = Array.isArray(template) ? template[0] : undefined;
+            return parsed.map((element, index) => this.reviveJson(element, elementTemplate, envVarName, `${path}.${index}`, ctx));
+        }
+
+        if (typeof parsed === 'object' && parsed !== null) {
+            const result: Record<string, unknown> = {};
+            for (const [key, element] of Object.entries(parsed)) {
+                const elementTemplate = typeof template === 'object' && template !== null
+                    ? (template as Record<string, unknown>)[key]
+                    : undefined;
+                result[key] = this.reviveJson(element, elementTemplate, envVarName, `${path}.${key}`, ctx);
             }
-            const nestedProp = value[nestedKey];
-            const snakeNestedKey = this.toSnakeCase(nestedKey).toUpperCase();
-            const nestedEnvKey = envVarName ? `${envVarName}_${snakeNestedKey}` : snakeNestedKey;
-            const nestedEnvValue = envSource[nestedEnvKey];
+            return result;
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Parse JSON, keeping integers outside the safe integer range exact as bigints
+     * (JSON.parse would round them to the nearest double).
+     *
+     * @param text - JSON text
+     * @returns Parsed value
+     * @throws SyntaxError if the text is not valid JSON
+     */
+    private static parseJson(text: string): unknown {
+        // Unsafe integers are replaced by marked strings, decoded by the reviver below
+        const marker = '\u0000bigint:';
+        const escapedMarker = '\\u0000bigint:';
+        if (text.includes(escapedMarker)) {
+            return JSON.parse(text);
+        }
+
+        // Strings are matched first and kept as they are
+        const quoted = text.replace(/"(?:[^"\\]|\\.)*"|(?<![\w.+-])-?\d{16,}(?![\d.eE])/g, token =>
+            token.startsWith('"') || Number.isSafeInteger(Number(token)) ? token : `"${escapedMarker}${token}"`);
+
+        return JSON.parse(quoted, (_key, value) =>
+            typeof value === 'string' && value.startsWith(marker) ? BigInt(value.slice(marker.length)) : value);
+    }
 
-            // Handle nested objects recursively
-            if (typeof nestedProp === 'object' && nestedProp !== null && !Array.isArray(nestedProp)) {
-                this.applyComplexObject(nestedKey, nestedEnvKey, nestedProp, envSource);
-            } else if (nestedEnvValue !== undefined && nestedEnvValue !== '') {
-                // Handle primitives - empty string means "no value set", keep default
-                const nestedType = typeof nestedProp;
-                value[nestedKey] = this.coerceValue(nestedEnvValue, nestedType);
+    /**
+     * Deep clone a default value. Unlike a JSON round-trip, this keeps Dates, RegExps,
+     * URLs, Maps, Sets, bigints and class prototypes intact.
+     *
+     * @param value - Value to clone
+     * @returns Cloned value
+     */
+    private static cloneValue<V>(value: V): V {
+        if (value instanceof Date) {
+            return new Date(value.getTime()) as V;
+        }
+        if (value instanceof RegExp) {
+            return new RegExp(value.source, value.flags) as V;
+        }
+        if (value instanceof URL) {
+            return new URL(value.href) as V;
+        }
+        if (value instanceof Map) {
+            return new Map([...value].map(([key, element]) => [this.cloneValue(key), this.cloneValue(element)])) as V;
+        }
+        if (value instanceof Set) {
+            return new Set([...value].map(element => this.cloneValue(element))) as V;
+        }
+        if (Array.isArray(value)) {
+            return value.map(element => this.cloneValue(element)) as V;
+        }
+        if (typeof value === 'object' && value !== null) {
+            const clone = Object.create(Object.getPrototypeOf(value));
+            for (const key of Object.keys(value)) {
+                clone[key] = this.cloneValue((value as Record<string, unknown>)[key]);
             }
+            return clone;
         }
+        return value;
     }
 
     /**
@@ -632,52 +3067,109 @@ export class AutoEnvParse {
         defaultValue: T,
         envSource: Record<string, string> = process.env as Record<string, string>
     ): T {
+        const ctx = this.createContext(envSource);
         // Deep clone to avoid mutation of the original default value
-        const result = JSON.parse(JSON.stringify(defaultValue));
-
-        for (const key in defaultValue) {
-            if (!Object.prototype.hasOwnProperty.call(defaultValue, key)) {
-                continue;
-            }
-
-            const value = defaultValue[key];
-            // Convert camelCase to SNAKE_CASE for env var name
-            const envKey = this.buildEnvVarName(prefix, key);
-            const envValue = envSource[envKey];
-
-            // Check if this property is a plain nested object
-            if (this.isPlainObject(value)) {
-                // Recursively process nested plain objects
-                result[key] = this.loadNestedFromEnv(envKey, value, envSource) as T[Extract<keyof T, string>];
-            } else if (envValue !== undefined && envValue !== '') {
-                // Empty string means "no value set", keep default
-                const defaultType = typeof value;
-                result[key] = this.coerceValue(envValue, defaultType) as T[Extract<keyof T, string>];
-            }
-        }
-
+        const result = this.cloneValue(defaultValue);
+        this.applyProperties(result, this.namingPath(prefix, []), ctx);
+        this.throwIfIssues(ctx.issues);
         return result;
     }
 
     /**
      * Coerce a string value to the specified type.
      *
+     * In strict mode, malformed values throw a {@link CoercionError} instead of
+     * being coerced loosely (e.g., '8080abc' → 8080, 'maybe' → false).
+     *
      * @param value - String value from environment variable
-     * @param type - Target type ('boolean', 'number', 'string')
+     * @param type - Target type ('boolean', 'number', 'string', 'bigint', 'date', 'url', 'regexp', 'bytes')
+     * @param options - Optional strict mode settings
      * @returns Coerced value
+     * @throws CoercionError in strict mode if the value is invalid, and for invalid bigints, dates, URLs, patterns and byte sizes in any mode
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.coerceValue('0x1F', 'number', { strict: true });          // 31
+     * AutoEnvParse.coerceValue('1_000', 'number', { strict: true });         // 1000
+     * AutoEnvParse.coerceValue('8080abc', 'number', { strict: true });       // throws
+     * AutoEnvParse.coerceValue('1.5', 'number', { strict: true, integer: true }); // throws
+     * AutoEnvParse.coerceValue('2026-01-01', 'date');                         // Date
+     * AutoEnvParse.coerceValue('512MB', 'bytes');                             // 512000000
+     * AutoEnvParse.coerceValue('0xFFFFFFFFFFFFFFFF', 'bigint');               // 18446744073709551615n
+     * ```
      */
-    static coerceValue(value: string, type: string): string | number | boolean {
+    static coerceValue(value: string, type: string, options: CoerceOptions = {}): string | number | boolean | bigint | Date | URL | RegExp {
         switch (type) {
+            case 'date':
+                return this.parseDate(value);
+            case 'bytes':
+                return this.parseByteSize(value);
+            case 'bigint':
+                return this.parseBigInt(value);
+            case 'url':
+                return this.parseUrl(value);
+            case 'regexp':
+                return this.parseRegExp(value);
             case 'boolean':
-                return this.parseBoolean(value);
+                return options.strict ? this.parseStrictBoolean(value) : this.parseBoolean(value);
             case 'number':
-                return this.parseNumber(value);
+                return options.strict ? this.parseStrictNumber(value, options) : this.parseNumber(value);
             case 'string':
             default:
                 return value;
         }
     }
 
+    /**
+     * Parse a string to boolean, rejecting unrecognized values.
+     *
+     * @param value - String value
+     * @returns Boolean value
+     * @throws CoercionError if the value is not a recognized boolean
+     */
+    private static parseStrictBoolean(value: string): boolean {
+        const normalized = value.toLowerCase().trim();
+        if (this.truthyValues.includes(normalized)) {
+            return true;
+        }
+        if (this.falsyValues.includes(normalized)) {
+            return false;
+        }
+        throw new CoercionError('boolean', value);
+    }
+
+    /**
+     * Parse a complete numeric literal, rejecting trailing garbage, empty strings and non-finite numbers.
+     *
+     * Supports decimal and exponent notation, `0x`/`0o`/`0b` prefixes and `_` digit separators.
+     *
+     * @param value - String value
+     * @param options - Integer and safe-integer checks
+     * @returns Parsed number
+     * @throws CoercionError if the value is not a valid number
+     */
+    private static parseStrictNumber(value: string, options: CoerceOptions): number {
+        const trimmed = value.trim();
+        const match = trimmed.match(/^([+-]?)(0x[0-9a-f]+(?:_[0-9a-f]+)*|0o[0-7]+(?:_[0-7]+)*|0b[01]+(?:_[01]+)*|(?:\d+(?:_\d+)*(?:\.(?:\d+(?:_\d+)*)?)?|\.\d+(?:_\d+)*)(?:e[+-]?\d+)?)$/i);
+        if (!match) {
+            throw new CoercionError('number', value);
+        }
+
+        const magnitude = Number(match[2].replace(/_/g, ''));
+        const parsed = match[1] === '-' ? -magnitude : magnitude;
+
+        if (!Number.isFinite(parsed)) {
+            throw new CoercionError('number', value);
+        }
+        if (options.integer && !Number.isInteger(parsed)) {
+            throw new CoercionError('integer', value);
+        }
+        if (options.safeInteger && Number.isInteger(parsed) && !Number.isSafeInteger(parsed)) {
+            throw new CoercionError('safe integer', value);
+        }
+        return parsed;
+    }
+
     /**
      * Parse a string to boolean.
      *
@@ -701,8 +3193,8 @@ export class AutoEnvParse {
      */
     static parseBoolean(value: string, strict = false): boolean {
         const normalized = value.toLowerCase().trim();
-        const truthy = ['true', '1', 'yes', 'on'];
-        const falsy = ['false', '0', 'no', 'off'];
+        const truthy = this.truthyValues;
+        const falsy = this.falsyValues;
 
         if (truthy.includes(normalized)) {
             return true;
@@ -719,6 +3211,204 @@ export class AutoEnvParse {
         return false;
     }
 
+    /**
+     * Parse a string to a Date.
+     *
+     * Accepts ISO-8601 dates and date-times (`2026-01-01`, `2026-01-01T10:00:00Z`,
+     * `2026-01-01T10:00:00+02:00`) and integer epoch timestamps. Timestamps below
+     * 100000000000 (up to 11 digits) are read as seconds, larger ones as milliseconds.
+     * Date-only values are UTC, date-times without an offset are local time.
+     *
+     * @param value - String value
+     * @returns Parsed date
+     * @throws CoercionError if the value is not a valid date
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.parseDate('2026-01-01');            // 2026-01-01T00:00:00.000Z
+     * AutoEnvParse.parseDate('1767225600');            // epoch seconds
+     * AutoEnvParse.parseDate('1767225600000');         // epoch milliseconds
+     * AutoEnvParse.parseDate('2026-02-30');            // throws
+     * ```
+     */
+    static parseDate(value: string): Date {
+        const trimmed = value.trim().toUpperCase();
+        let date: Date;
+
+        if (/^[+-]?\d+$/.test(trimmed)) {
+            const epoch = Number(trimmed);
+            date = new Date(Math.abs(epoch) < 1e11 ? epoch * 1000 : epoch);
+        } else {
+            const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+            if (!match) {
+                throw new CoercionError('date', value);
+            }
+            // Reject days the Date constructor would roll over (e.g., 2026-02-30 → March 2)
+            const [year, month, day] = match.slice(1, 4).map(Number);
+            const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+            if (month < 1 || month > 12 || day < 1 || day > daysInMonth) {
+                throw new CoercionError('date', value);
+            }
+            date = new Date(trimmed);
+        }
+
+        if (isNaN(date.getTime())) {
+            throw new CoercionError('date', value);
+        }
+        return date;
+    }
+
+    /**
+     * Parse a human-readable duration to a number in the given unit.
+     *
+     * Accepts `ms`, `s`, `m`, `h` and `d` components, optionally compound (`'1h30m'`,
+     * `'1d 12h'`) and fractional (`'1.5h'`). Bare numbers are read in the target unit.
+     *
+     * @param value - String value
+     * @param unit - Unit of the result (default: 'ms')
+     * @returns Duration in the given unit
+     * @throws CoercionError if the value is not a valid duration
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.parseDuration('30s');          // 30000
+     * AutoEnvParse.parseDuration('1h30m', 'm');   // 90
+     * AutoEnvParse.parseDuration('500ms', 's');   // 0.5
+     * AutoEnvParse.parseDuration('250');          // 250 (bare number, already in ms)
+     * ```
+     */
+    static parseDuration(value: string, unit: DurationUnit = 'ms'): number {
+        const trimmed = value.trim().toLowerCase();
+
+        if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+            return Number(trimmed);
+        }
+        if (!/^(?:\d+(?:\.\d+)?\s*(?:ms|s|m|h|d)\s*)+$/.test(trimmed)) {
+            throw new CoercionError('duration', value);
+        }
+
+        let milliseconds = 0;
+        for (const [, amount, component] of trimmed.matchAll(/(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)/g)) {
+            milliseconds += Number(amount) * this.durationUnits[component as DurationUnit];
+        }
+        return milliseconds / this.durationUnits[unit];
+    }
+
+    /**
+     * Parse a byte size to a whole number of bytes.
+     *
+     * Accepts SI suffixes (`KB`, `MB`, `GB`, `TB`, `PB`, `EB`; powers of 1000), IEC suffixes
+     * (`KiB`, `MiB`, `GiB`, `TiB`, `PiB`, `EiB`; powers of 1024) and `B`, case-insensitive.
+     * Bare numbers are bytes. Fractional results are rounded to the nearest byte.
+     *
+     * @param value - String value
+     * @returns Size in bytes
+     * @throws CoercionError if the value is not a valid size, is negative or exceeds Number.MAX_SAFE_INTEGER
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.parseByteSize('512MB');    // 512000000
+     * AutoEnvParse.parseByteSize('1.5GiB');   // 1610612736
+     * AutoEnvParse.parseByteSize('64kib');    // 65536
+     * AutoEnvParse.parseByteSize('1024');     // 1024
+     * ```
+     */
+    static parseByteSize(value: string): number {
+        const match = value.trim().match(/^(\d+(?:\.\d+)?|\.\d+)\s*(?:([kmgtpe])(i)?)?(b)?$/i);
+        // A prefix needs the trailing 'B' ('512M' is ambiguous)
+        if (!match || (match[2] && !match[4])) {
+            throw new CoercionError('byte size', value);
+        }
+
+        const [, amount, prefix, binary] = match;
+        const exponent = prefix ? 'kmgtpe'.indexOf(prefix.toLowerCase()) + 1 : 0;
+        const bytes = Math.round(Number(amount) * Math.pow(binary ? 1024 : 1000, exponent));
+
+        if (!Number.isSafeInteger(bytes)) {
+            throw new CoercionError('byte size', value);
+        }
+        return bytes;
+    }
+
+    /**
+     * Parse a decimal or hexadecimal (`0x`) integer string to a bigint.
+     * `_` digit separators are allowed.
+     *
+     * @param value - String value
+     * @returns Parsed bigint
+     * @throws CoercionError if the value is not an integer
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.parseBigInt('9007199254740993');     // 9007199254740993n
+     * AutoEnvParse.parseBigInt('-0xFF');                // -255n
+     * AutoEnvParse.parseBigInt('1_000_000');            // 1000000n
+     * AutoEnvParse.parseBigInt('1.5');                  // throws
+     * ```
+     */
+    static parseBigInt(value: string): bigint {
+        const match = value.trim().match(/^([+-]?)(0x[0-9a-f]+(?:_[0-9a-f]+)*|\d+(?:_\d+)*)$/i);
+        if (!match) {
+            throw new CoercionError('bigint', value);
+        }
+        const magnitude = BigInt(match[2].replace(/_/g, ''));
+        return match[1] === '-' ? -magnitude : magnitude;
+    }
+
+    /**
+     * Parse an absolute URL.
+     *
+     * @param value - String value
+     * @returns Parsed URL
+     * @throws CoercionError if the value is not an absolute URL
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.parseUrl('https://api.example.com/v1');  // URL
+     * AutoEnvParse.parseUrl('api.example.com');             // throws
+     * ```
+     */
+    static parseUrl(value: string): URL {
+        try {
+            return new URL(value.trim());
+        } catch {
+            throw new CoercionError('URL', value);
+        }
+    }
+
+    /**
+     * Parse a regular expression from a `/source/flags` literal or a plain pattern.
+     * A plain pattern gets the given default flags; a literal uses its own flags.
+     * Surrounding whitespace is ignored, and empty patterns (`''`, `'//'`) are rejected
+     * because they match every string.
+     *
+     * @param value - String value
+     * @param defaultFlags - Flags for plain patterns (e.g., the flags of the default RegExp)
+     * @returns Parsed RegExp
+     * @throws CoercionError if the pattern is empty, or the pattern or its flags are invalid
+     *
+     * @example
+     * ```typescript
+     * AutoEnvParse.parseRegExp('/^api\\//i');     // /^api\//i
+     * AutoEnvParse.parseRegExp('^admin', 'i');     // /^admin/i
+     * AutoEnvParse.parseRegExp('/^admin/');        // /^admin/ (no flags)
+     * AutoEnvParse.parseRegExp('(unclosed');       // throws
+     * AutoEnvParse.parseRegExp('//');              // throws
+     * ```
+     */
+    static parseRegExp(value: string, defaultFlags = ''): RegExp {
+        const trimmed = value.trim();
+        const literal = trimmed.match(/^\/(.*)\/([a-z]*)$/s);
+        if (literal ? literal[1] === '' : trimmed === '') {
+            throw new CoercionError('RegExp', value);
+        }
+        try {
+            return literal ? new RegExp(literal[1], literal[2]) : new RegExp(trimmed, defaultFlags);
+        } catch {
+            throw new CoercionError('RegExp', value);
+        }
+    }
+
     /**
      * Parse a string to number.
      *
@@ -764,7 +3454,8 @@ export class AutoEnvParse {
      * Create an enum validator for use with overrides.
      *
      * Returns a validator function that checks if the environment variable value
-     * is one of the allowed enum values. Throws an error if invalid.
+     * is one of the allowed enum values. Invalid values are reported through the
+     * configured `errorMode` (thrown after parsing by default).
      *
      * @param propertyKey - The property key to validate (must match the key in overrides Map)
      * @param allowedValues - Array of valid enum values
@@ -796,15 +3487,15 @@ export class AutoEnvParse {
      * // Accepts: debug, DEBUG, Debug, etc.
      * ```
      */
-    static enumValidator<T extends object>(
-        propertyKey: string,
-        allowedValues: string[],
+    static enumValidator<T extends object, K extends PropertyKeys<T> = PropertyKeys<T>>(
+        propertyKey: K,
+        allowedValues: ReadonlyArray<Extract<PropertyValue<T, K>, string>>,
         options: { caseSensitive?: boolean } = {}
-    ): (target: T, envVarName: string) => void {
+    ): OverrideFn<T> {
         const { caseSensitive = true } = options;
 
-        return (target: T, envVarName: string) => {
-            const value = process.env[envVarName];
+        return (target: T, envVarName: string, context?: OverrideContext) => {
+            const value = context ? context.env[envVarName] : process.env[envVarName];
 
             if (!value) {
                 // No value provided, keep default
@@ -812,8 +3503,8 @@ export class AutoEnvParse {
             }
 
             const checkValue = caseSensitive ? value : value.toLowerCase();
-            const allowed = caseSensitive
-                ? allowedValues
+            const allowed: string[] = caseSensitive
+                ? [...allowedValues]
                 : allowedValues.map(v => v.toLowerCase());
 
             if (allowed.includes(checkValue)) {
@@ -821,11 +3512,14 @@ export class AutoEnvParse {
                 const matchIndex = allowed.indexOf(checkValue);
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 (target as any)[propertyKey] = allowedValues[matchIndex];
+                context?.logger.debug(`${envVarName} matched enum value "${allowedValues[matchIndex]}"`);
             } else {
-                throw new Error(
-                    `Invalid value for ${envVarName}: "${value}". ` +
-                    `Must be one of: ${allowedValues.join(', ')}`
-                );
+                const message = `Invalid value for ${envVarName}: "${value}". ` +
+                    `Must be one of: ${allowedValues.join(', ')}`;
+                if (!context) {
+                    throw new Error(message);
+                }
+                context.report({ value, expected: `one of: ${allowedValues.join(', ')}`, message });
             }
         };
     }
@@ -837,8 +3531,12 @@ export class AutoEnvParse {
      * The transform function receives the raw string value from the environment variable
      * and returns the transformed value of any type.
      *
+     * Optional validation rules are checked against the transformed value before it is
+     * assigned; failures are reported like {@link AutoEnvParse.validate}.
+     *
      * @param propertyKey - The property key to transform (must match the key in overrides Map)
      * @param fn - Transform function that takes a string and returns the transformed value
+     * @param rules - Optional validation rules for the transformed value
      * @returns Override function for use with parse()
      *
      * @example
@@ -867,6 +3565,16 @@ export class AutoEnvParse {
      *
      * @example
      * ```typescript
+     * // Validate the transformed value (seconds → milliseconds)
+     * const overrides = new Map([
+     *     ['timeout', AutoEnvParse.transform('timeout', (val) => Number(val) * 1000,
+     *         AutoEnvParse.validators.range(1000, 60000)
+     *     )],
+     * ]);
+     * ```
+     *
+     * @example
+     * ```typescript
      * // Using lodash for complex transformations
      * import _ from 'lodash';
      *
@@ -877,26 +3585,242 @@ export class AutoEnvParse {
      * ]);
      * ```
      */
-    static transform<T extends object>(
-        propertyKey: string,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        fn: (value: string) => any
-    ): (target: T, envVarName: string) => void {
-        return (target: T, envVarName: string) => {
-            const value = process.env[envVarName];
+    static transform<T extends object, K extends PropertyKeys<T> = PropertyKeys<T>>(
+        propertyKey: K,
+        fn: (value: string) => PropertyValue<T, K>,
+        ...rules: Validator[]
+    ): OverrideFn<T> {
+        return (target: T, envVarName: string, context?: OverrideContext) => {
+            const value = context ? context.env[envVarName] : process.env[envVarName];
 
             if (value !== undefined) {
+                let transformed: unknown;
                 try {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    (target as any)[propertyKey] = fn(value);
+                    transformed = fn(value);
                 } catch (error) {
                     const errorMsg = error instanceof Error ? error.message : String(error);
-                    console.warn(`Warning: Transform failed for ${envVarName}: ${errorMsg}`);
+                    const message = `Transform failed for ${envVarName}: ${errorMsg}`;
+                    if (context) {
+                        context.report({ value, expected: 'transformable value', message }, 'warning');
+                    } else {
+                        console.warn(`Warning: ${message}`);
+                    }
+                    return;
+                }
+
+                if (this.checkRules(rules, transformed, value, envVarName, context)) {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    (target as any)[propertyKey] = transformed;
+                    context?.logger.debug(`${envVarName} transformed for "${context.path}"`);
+                }
+            }
+        };
+    }
+
+    /**
+     * Create a validating override from one or more validation rules.
+     *
+     * The raw environment variable value is coerced to the type of the property's
+     * default value (strictly, so '8080abc' is rejected for numbers), then checked
+     * against each rule in order. The first failure is reported through the configured
+     * `errorMode` (thrown after parsing by default) and the default value is kept.
+     *
+     * @param propertyKey - The property key to validate (must match the key in overrides Map)
+     * @param rules - Validation rules, typically from {@link AutoEnvParse.validators}
+     * @returns Override function for use with parse()
+     *
+     * @example
+     * ```typescript
+     * const { validators } = AutoEnvParse;
+     *
+     * const overrides = new Map([
+     *     ['port', AutoEnvParse.validate('port', validators.port())],
+     *     ['workers', AutoEnvParse.validate('workers', validators.integer(), validators.range(1, 64))],
+     *     ['apiUrl', AutoEnvParse.validate('apiUrl', validators.url({ protocols: ['https'] }))]
+     * ]);
+     *
+     * AutoEnvParse.parse(config, { prefix: 'APP', overrides });
+     * // APP_PORT=70000 → EnvValidationError: Invalid value for APP_PORT: "70000". Must be a port number (1-65535)
+     * ```
+     */
+    static validate<T extends object, K extends PropertyKeys<T> = PropertyKeys<T>>(
+        propertyKey: K,
+        ...rules: Validator[]
+    ): OverrideFn<T> {
+        return this.ruleOverride<T>(propertyKey, rules, (raw, current) => {
+            if (!['number', 'boolean', 'bigint', 'date', 'url', 'regexp'].includes(this.coercionType(current))) {
+                return raw;
+            }
+            return current instanceof RegExp
+                ? this.parseRegExp(raw, current.flags)
+                : this.coerceValue(raw, this.coercionType(current), { strict: true });
+        }, `passed ${rules.length} validation rule(s)`);
+    }
+
+    /**
+     * Create an override that parses a human-readable duration (`'30s'`, `'5m'`, `'1h30m'`)
+     * into a number in the given unit, optionally checked against validation rules.
+     *
+     * Bare numbers are read in the target unit, so existing millisecond values keep working.
+     * Invalid durations are reported through the configured `errorMode` and the default is kept.
+     *
+     * @param propertyKey - The property key to parse (must match the key in overrides)
+     * @param unit - Unit of the resulting number (default: 'ms')
+     * @param rules - Optional validation rules checked against the parsed number
+     * @returns Override function for use with parse()
+     *
+     * @example
+     * ```typescript
+     * const overrides = {
+     *     timeout: AutoEnvParse.duration('timeout'),
+     *     ttl: AutoEnvParse.duration('ttl', 's', AutoEnvParse.validators.range(1, 86400))
+     * };
+     *
+     * AutoEnvParse.parse(config, { prefix: 'APP', overrides });
+     * // APP_TIMEOUT=30s → 30000, APP_TTL=1h → 3600
+     * ```
+     */
+    static duration<T extends object, K extends PropertyKeys<T> = PropertyKeys<T>>(
+        propertyKey: K,
+        unit: DurationUnit = 'ms',
+        ...rules: Validator[]
+    ): OverrideFn<T> {
+        return this.ruleOverride<T>(propertyKey, rules, raw => this.parseDuration(raw, unit), `parsed as duration (${unit})`, true);
+    }
+
+    /**
+     * Create an override that parses a byte size (`'512MB'`, `'1.5GiB'`) into a whole number
+     * of bytes, optionally checked against validation rules.
+     *
+     * Invalid, negative or unsafe sizes are reported through the configured `errorMode`
+     * and the default is kept. See {@link AutoEnvParse.parseByteSize} for accepted suffixes.
+     *
+     * @param propertyKey - The property key to parse (must match the key in overrides)
+     * @param rules - Optional validation rules checked against the number of bytes
+     * @returns Override function for use with parse()
+     *
+     * @example
+     * ```typescript
+     * const overrides = {
+     *     bodyLimit: AutoEnvParse.byteSize('bodyLimit', AutoEnvParse.validators.range(1, 10_000_000))
+     * };
+     * // APP_BODY_LIMIT=1MB → 1000000
+     * ```
+     */
+    static byteSize<T extends object, K extends PropertyKeys<T> = PropertyKeys<T>>(
+        propertyKey: K,
+        ...rules: Validator[]
+    ): OverrideFn<T> {
+        return this.ruleOverride<T>(propertyKey, rules, raw => this.parseByteSize(raw), 'parsed as byte size', true);
+    }
+
+    /**
+     * Create an override that parses the raw value, checks it against validation rules and
+     * assigns it. Values the parser rejects with a `CoercionError` are reported and the
+     * default is kept.
+     *
+     * @param propertyKey - The property key to assign
+     * @param rules - Validation rules checked against the parsed value
+     * @param parse - Parses the raw value, given the property's current value
+     * @param outcome - Debug log description of a successful parse
+     * @param lenient - Handle values like the matching parse option: empty values are unset,
+     * and values the parser rejects are warnings outside strict mode
+     * @returns Override function for use with parse()
+     */
+    private static ruleOverride<T extends object>(
+        propertyKey: PropertyKey,
+        rules: Validator[],
+        parse: (raw: string, current: unknown) => unknown,
+        outcome: string,
+        lenient = false
+    ): OverrideFn<T> {
+        return (target: T, envVarName: string, context?: OverrideContext) => {
+            const raw = context ? context.env[envVarName] : process.env[envVarName];
+
+            if (raw === undefined || (lenient && raw === '')) {
+                // No value provided, keep default
+                return;
+            }
+
+            let value: unknown;
+            try {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                value = parse(raw, (target as any)[propertyKey]);
+            } catch (error) {
+                if (!(error instanceof CoercionError)) {
+                    throw error;
                 }
+                this.reportRuleFailure(envVarName, raw, error.expected,
+                    `Invalid ${error.expected} value for ${envVarName}: "${raw}"`, context,
+                    lenient && !context?.strict ? 'warning' : 'error');
+                return;
+            }
+
+            if (this.checkRules(rules, value, raw, envVarName, context)) {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                (target as any)[propertyKey] = value;
+                context?.logger.debug(`${envVarName} ${outcome} for "${context.path}"`);
             }
         };
     }
 
+    /**
+     * Check a value against validation rules, reporting the first failure.
+     *
+     * @param rules - Validation rules
+     * @param value - Value to check (coerced or transformed)
+     * @param raw - Raw environment variable value (for issue reporting)
+     * @param envVarName - Environment variable name
+     * @param context - Override context, if available
+     * @returns True if all rules passed
+     */
+    private static checkRules(
+        rules: Validator[],
+        value: unknown,
+        raw: string,
+        envVarName: string,
+        context: OverrideContext | undefined
+    ): boolean {
+        for (const rule of rules) {
+            const expected = rule(value);
+            if (expected !== undefined) {
+                this.reportRuleFailure(envVarName, raw, expected,
+                    `Invalid value for ${envVarName}: "${raw}". Must be ${expected}`, context);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Report a failed validation through the override context. Without a context, errors
+     * are thrown and warnings are written to `console.warn`.
+     *
+     * @param envVarName - Environment variable name
+     * @param raw - Raw environment variable value
+     * @param expected - Description of the expected value
+     * @param message - Error message
+     * @param context - Override context, if available
+     * @param severity - Issue severity (default: 'error')
+     */
+    private static reportRuleFailure(
+        envVarName: string,
+        raw: string,
+        expected: string,
+        message: string,
+        context: OverrideContext | undefined,
+        severity: IssueSeverity = 'error'
+    ): void {
+        if (!context) {
+            if (severity === 'error') {
+                throw new Error(message);
+            }
+            console.warn(`Warning: ${message}`);
+            return;
+        }
+        context.report({ value: raw, expected, message }, severity);
+    }
+
     /**
      * Built-in lightweight .env file parser.
      * Supports: KEY=value, comments (#), basic quotes, empty lines.
@@ -943,11 +3867,19 @@ export class AutoEnvParse {
      *
      * @param sources - Array of sources ('env' or file paths)
      * @param envFileParser - Optional custom parser for .env files
+     * @param origins - Optional record that receives the winning source for each key
+     * @param logger - Logger for warnings and debug tracing
+     * @param lines - Optional record that receives the line number of each key loaded from a file
+     * @param caseInsensitive - Normalize keys to upper case after merging
      * @returns Merged environment variables
      */
     private static loadSources(
         sources: Array<'env' | string>,
-        envFileParser?: (content: string) => Record<string, string>
+        envFileParser?: (content: string) => Record<string, string>,
+        origins: Record<string, string> = {},
+        logger: Logger = this.createLogger({}),
+        lines: Record<string, number> = {},
+        caseInsensitive = false
     ): Record<string, string> {
         // Use provided parser or built-in parser
         const parser = envFileParser || this.parseEnvFile.bind(this);
@@ -962,6 +3894,9 @@ export class AutoEnvParse {
             if (source === 'env') {
                 // Load from process.env
                 Object.assign(merged, process.env);
+                this.recordOrigin(origins, process.env, source);
+                this.recordLines(lines, process.env);
+                logger.debug(`Loaded ${Object.keys(process.env).length} variables from process.env`);
             } else {
                 // Load from file
                 try {
@@ -978,17 +3913,129 @@ export class AutoEnvParse {
                         const content = fs.readFileSync(filePath, 'utf8');
                         const parsed = parser(content);
                         Object.assign(merged, parsed);
+                        this.recordOrigin(origins, parsed, source);
+                        this.recordLines(lines, parsed, content);
+                        logger.info(`Loaded ${Object.keys(parsed).length} variables from ${source}`);
                     } else {
                         // Warn about missing file
-                        console.warn(`Warning: Environment file not found: ${source}`);
+                        logger.warn(`Environment file not found: ${source}`);
                     }
                 } catch (error) {
                     const errorMsg = error instanceof Error ? error.message : String(error);
-                    console.warn(`Warning: Failed to load environment file ${source}: ${errorMsg}`);
+                    logger.warn(`Failed to load environment file ${source}: ${errorMsg}`);
                 }
             }
         }
 
-        return merged;
+        return caseInsensitive ? this.normalizeKeys(merged, sources, origins, lines, logger) : merged;
+    }
+
+    /**
+     * Normalize merged environment variables to upper-case keys for case-insensitive lookup.
+     * When differently-cased keys collide, the key from the highest-priority source is used
+     * (within one source, the upper-case key) and a warning is logged.
+     *
+     * @param merged - Merged environment variables
+     * @param sources - Sources in priority order
+     * @param origins - Winning source of each key, rewritten to the normalized keys
+     * @param lines - Line number of each key loaded from a file, rewritten to the normalized keys
+     * @param logger - Logger for collision warnings
+     * @returns Environment variables with upper-case keys
+     */
+    private static normalizeKeys(
+        merged: Record<string, string>,
+        sources: Array<'env' | string>,
+        origins: Record<string, string>,
+        lines: Record<string, number>,
+        logger: Logger
+    ): Record<string, string> {
+        const rank = (key: string): number => sources.indexOf(origins[key]);
+        const used = new Map<string, string>();
+
+        for (const key of Object.keys(merged)) {
+            const normalized = key.toUpperCase();
+            const current = used.get(normalized);
+            if (current === undefined) {
+                used.set(normalized, key);
+                continue;
+            }
+
+            const wins = rank(key) < rank(current) || (rank(key) === rank(current) && key === normalized);
+            const [winner, loser] = wins ? [key, current] : [current, key];
+            used.set(normalized, winner);
+            logger.warn(`Environment variables ${loser} and ${winner} differ only in case. Using ${winner}.`);
+        }
+
+        const env: Record<string, string> = {};
+        const normalizedOrigins: Record<string, string> = {};
+        const normalizedLines: Record<string, number> = {};
+        for (const [normalized, key] of used) {
+            env[normalized] = merged[key];
+            if (origins[key] !== undefined) {
+                normalizedOrigins[normalized] = origins[key];
+            }
+            if (lines[key] !== undefined) {
+                normalizedLines[normalized] = lines[key];
+            }
+        }
+
+        // origins and lines are shared with the caller, so they are rewritten in place
+        for (const key of Object.keys(origins)) {
+            delete origins[key];
+        }
+        for (const key of Object.keys(lines)) {
+            delete lines[key];
+        }
+        Object.assign(origins, normalizedOrigins);
+        Object.assign(lines, normalizedLines);
+        return env;
+    }
+
+    /**
+     * Record the source name for every key of a loaded source.
+     *
+     * @param origins - Record of key to source name
+     * @param values - Variables loaded from the source
+     * @param source - Source name ('env' or file path)
+     */
+    private static recordOrigin(
+        origins: Record<string, string>,
+        values: Record<string, string | undefined>,
+        source: string
+    ): void {
+        for (const key of Object.keys(values)) {
+            origins[key] = source;
+        }
+    }
+
+    /**
+     * Record the line number of every key of a loaded source. Keys whose line cannot be
+     * found (process.env, or a custom parser that renames keys) lose any previous line.
+     *
+     * @param lines - Record of key to line number
+     * @param values - Variables loaded from the source
+     * @param content - Env file content (omitted for process.env)
+     */
+    private static recordLines(
+        lines: Record<string, number>,
+        values: Record<string, string | undefined>,
+        content?: string
+    ): void {
+        const found: Record<string, number> = {};
+        content?.split('\n').forEach((line, index) => {
+            const match = line.match(/^\s*([^=#\s][^=]*?)\s*=/);
+            if (match) {
+                // Later assignments win, matching parseEnvFile
+                found[match[1]] = index + 1;
+            }
+        });
+
+        for (const key of Object.keys(values)) {
+            if (found[key] !== undefined) {
+                lines[key] = found[key];
+            } else {
+                delete lines[key];
+            }
+        }
     }
 }
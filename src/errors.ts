@@ -0,0 +1,111 @@
+/**
+ * A single problem found while applying environment variables to a configuration object.
+ */
+export interface EnvIssue {
+    /**
+     * Environment variable name that was read (e.g., 'DB_PORT').
+     */
+    envVar: string;
+
+    /**
+     * Property path inside the configuration object (e.g., 'database.port' or 'servers.0.host').
+     */
+    path: string;
+
+    /**
+     * Raw string value of the environment variable, or undefined if it was not set.
+     */
+    value: string | undefined;
+
+    /**
+     * Human-readable description of what was expected (e.g., 'number', 'JSON array').
+     */
+    expected: string;
+
+    /**
+     * Source the raw value was loaded from: 'env' for process.env or the file path from `sources`.
+     * Undefined when the variable was not set in any source.
+     */
+    source: string | undefined;
+
+    /**
+     * Human-readable error message.
+     */
+    message: string;
+}
+
+/**
+ * Error thrown when one or more environment variables fail to parse or validate.
+ *
+ * All problems found during a single parse are available through `issues`,
+ * so every broken variable can be reported at once.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     AutoEnvParse.parse(config, { prefix: 'DB', errorMode: 'collect' });
+ * } catch (error) {
+ *     if (error instanceof EnvValidationError) {
+ *         for (const issue of error.issues) {
+ *             console.error(`${issue.envVar}: ${issue.message}`);
+ *         }
+ *     }
+ * }
+ * ```
+ */
+export class EnvValidationError extends Error {
+    /**
+     * All issues found during parsing, in the order they were encountered.
+     */
+    readonly issues: EnvIssue[];
+
+    constructor(issues: EnvIssue[]) {
+        super(EnvValidationError.formatMessage(issues));
+        this.name = 'EnvValidationError';
+        this.issues = issues;
+    }
+
+    /**
+     * Build the error message. A single issue uses its own message as-is,
+     * multiple issues are listed one per line.
+     *
+     * @param issues - Issues to describe
+     * @returns Error message
+     */
+    private static formatMessage(issues: EnvIssue[]): string {
+        if (issues.length === 1) {
+            return issues[0].message;
+        }
+        const lines = issues.map(issue => `  - ${issue.message}`);
+        return `${issues.length} environment variable issues found:\n${lines.join('\n')}`;
+    }
+}
+
+/**
+ * Error thrown by {@link AutoEnvParse.coerceValue} in strict mode when a value
+ * cannot be converted to the requested type.
+ *
+ * @example
+ * ```typescript
+ * AutoEnvParse.coerceValue('8080abc', 'number', { strict: true });
+ * // throws CoercionError: Invalid number value "8080abc"
+ * ```
+ */
+export class CoercionError extends Error {
+    /**
+     * Description of the expected type (e.g., 'number', 'integer', 'boolean').
+     */
+    readonly expected: string;
+
+    /**
+     * The value that failed to convert.
+     */
+    readonly value: string;
+
+    constructor(expected: string, value: string) {
+        super(`Invalid ${expected} value "${value}"`);
+        this.name = 'CoercionError';
+        this.expected = expected;
+        this.value = value;
+    }
+}
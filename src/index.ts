@@ -8,6 +8,39 @@ import { AutoEnvParse } from './autoEnvParse';
 
 // Named export - the primary way to import
 export { AutoEnvParse };
+export { CoercionError, EnvValidationError } from './errors';
+export { Provenance } from './provenance';
+
+// Types
+export type {
+    CoerceOptions,
+    DurationUnit,
+    ErrorMode,
+    IssueSeverity,
+    ListFormat,
+    ListOptions,
+    Logger,
+    NamingStrategy,
+    OverrideContext,
+    OverrideFn,
+    OverrideRecord,
+    ParseOptions,
+    ProvenanceResult,
+    SafeParseResult,
+    SchemaParseOptions,
+    StrictOptions,
+    TypeCoercer,
+    TypeConstructor,
+    TypeHint,
+    UnknownVariablesMode,
+    ValidationFailure,
+    ValidationResult
+} from './autoEnvParse';
+export type { EnvIssue } from './errors';
+export type { ProvenanceEntry, ProvenanceSource } from './provenance';
+export type { EnvVarName, EnvVarNames, SnakeCase } from './types';
+export type { InferSchemaOutput, StandardSchemaV1 } from './schema';
+export type { OneOfValidatorOptions, UrlValidatorOptions, Validator } from './validators';
 
 // Default export - for convenience (allows: import AEP from 'auto-envparse')
 export default AutoEnvParse;
@@ -0,0 +1,124 @@
+/**
+ * How a property received its value.
+ *
+ * - `'env'` - Its own environment variable (e.g., DB_PORT for `port`)
+ * - `'json'` - JSON in a parent variable (e.g., DB_POOL='{"max":5}' for `pool.max`)
+ * - `'dot-notation'` - A nested or array element variable (e.g., DB_POOL_MAX, DB_SERVERS_0_HOST)
+ * - `'override'` - A custom override function
+ * - `'default'` - No variable was set; the default value was kept
+ */
+export type ProvenanceSource = 'env' | 'json' | 'dot-notation' | 'override' | 'default';
+
+/**
+ * Where a single property's value came from.
+ */
+export interface ProvenanceEntry {
+    /**
+     * Environment variable the value was read from (the parent variable for JSON).
+     * Undefined for defaults.
+     */
+    envVar: string | undefined;
+
+    /**
+     * How the value was applied.
+     */
+    source: ProvenanceSource;
+
+    /**
+     * Env file the variable was loaded from, or undefined for process.env and defaults.
+     */
+    file: string | undefined;
+
+    /**
+     * Line of the variable in `file`, when known.
+     */
+    line: number | undefined;
+
+    /**
+     * Raw string value of the environment variable. Undefined for defaults.
+     */
+    rawValue: string | undefined;
+
+    /**
+     * Final value of the property after parsing.
+     */
+    applied: unknown;
+}
+
+/**
+ * Provenance of every property, keyed by property path (e.g., 'database.port', 'servers.0.host').
+ *
+ * @example
+ * ```typescript
+ * const { data, provenance } = AutoEnvParse.parse(config, { prefix: 'DB', provenance: true });
+ * provenance.get('port');      // { envVar: 'DB_PORT', source: 'env', file: '.env.local', line: 3, ... }
+ * console.log(provenance.toTable());
+ * ```
+ */
+export class Provenance extends Map<string, ProvenanceEntry> {
+    /**
+     * Display format for applied values (e.g., of custom types). Returning undefined
+     * falls back to the default format.
+     */
+    private readonly serialize?: (value: unknown) => string | undefined;
+
+    constructor(serialize?: (value: unknown) => string | undefined) {
+        super();
+        this.serialize = serialize;
+    }
+
+    /**
+     * Format the provenance as an aligned plain-text table.
+     *
+     * @returns Table with one row per property
+     */
+    toTable(): string {
+        const header = ['Path', 'Env Var', 'Source', 'File', 'Raw Value', 'Applied'];
+        const rows = [...this].map(([path, entry]) => [
+            path,
+            entry.envVar ?? '',
+            entry.source,
+            entry.file ? `${entry.file}${entry.line ? `:${entry.line}` : ''}` : (entry.envVar ? 'process.env' : ''),
+            entry.rawValue ?? '',
+            this.serialize?.(entry.applied) ?? Provenance.formatValue(entry.applied)
+        ]);
+
+        const widths = header.map((title, column) =>
+            Math.max(title.length, ...rows.map(row => row[column].length)));
+        const formatRow = (row: string[]): string =>
+            row.map((cell, column) => cell.padEnd(widths[column])).join(' | ').trimEnd();
+
+        return [
+            formatRow(header),
+            widths.map(width => '-'.repeat(width)).join('-|-'),
+            ...rows.map(formatRow)
+        ].join('\n');
+    }
+
+    /**
+     * Format an applied value for the table.
+     *
+     * @param value - Applied value
+     * @returns Display string
+     */
+    private static formatValue(value: unknown): string {
+        if (typeof value === 'string') {
+            return JSON.stringify(value);
+        }
+        if (Array.isArray(value) || (typeof value === 'object' && value !== null && !(value instanceof RegExp) && !(value instanceof Date))) {
+            return JSON.stringify(value, (_key, element) => {
+                if (typeof element === 'bigint') {
+                    return `${element}n`;
+                }
+                if (element instanceof Map) {
+                    return Object.fromEntries(element);
+                }
+                if (element instanceof RegExp) {
+                    return String(element);
+                }
+                return element instanceof Set ? [...element] : element;
+            });
+        }
+        return typeof value === 'bigint' ? `${value}n` : String(value);
+    }
+}
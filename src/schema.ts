@@ -0,0 +1,337 @@
+/**
+ * Standard Schema v1 interface (https://standardschema.dev), implemented by Zod (3.24+),
+ * Valibot (1.0+), ArkType and others. Copied here so no schema library is required at runtime.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    readonly '~standard': {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+        readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+    };
+}
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Issue reported by a Standard Schema validation.
+ */
+export interface StandardSchemaIssue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * Output type of a Standard Schema.
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['output'];
+
+/**
+ * Primitive types a leaf value can be coerced to before validation.
+ * 'json' means the raw value is parsed as JSON (records, tuples, unknown objects).
+ */
+export type LeafType = 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'json';
+
+/**
+ * Library-independent description of a schema's shape, used to find environment variables.
+ * `anyString` is true for leaves that accept any string, not only string literals;
+ * `literals` holds the string literals a leaf accepts.
+ */
+export type SchemaNode =
+    | { kind: 'object'; entries: Record<string, SchemaNode>; optional: boolean }
+    | { kind: 'array'; element: SchemaNode; optional: boolean }
+    | { kind: 'leaf'; types: Set<LeafType>; optional: boolean; anyString: boolean; literals: Set<string> };
+
+/**
+ * Zod definition types (v3 `typeName` without the 'Zod' prefix, or v4 `type`) that wrap another schema,
+ * mapped to the definition property holding the wrapped schema.
+ */
+const zodWrappers: Record<string, string> = {
+    optional: 'innerType',
+    nullable: 'innerType',
+    default: 'innerType',
+    prefault: 'innerType',
+    catch: 'innerType',
+    readonly: 'innerType',
+    nonoptional: 'innerType',
+    effects: 'schema',
+    branded: 'type',
+    pipeline: 'in',
+    pipe: 'in'
+};
+
+/**
+ * Valibot schema types that wrap another schema (stored in `wrapped`).
+ */
+const valibotWrappers = ['optional', 'nullable', 'nullish', 'exact_optional', 'undefinedable', 'non_optional', 'non_nullable', 'non_nullish'];
+
+/**
+ * Wrapper types that make a value optional (an unset variable lets the schema apply its default).
+ */
+const optionalWrappers = ['optional', 'default', 'prefault', 'catch', 'nullish', 'exact_optional', 'undefinedable'];
+
+/**
+ * Describe the shape of a Zod or Valibot schema.
+ *
+ * Standard Schema does not expose object shapes, so this reads the library's
+ * own definitions. Unrecognized schemas are treated as string leaves.
+ *
+ * @param schema - Zod (v3 or v4) or Valibot schema
+ * @returns Schema shape
+ */
+export function describeSchema(schema: unknown): SchemaNode {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const s = schema as any;
+    if (s?._zod?.def) {
+        return describeZod(s._zod.def);
+    }
+    if (s?._def?.typeName) {
+        return describeZod(s._def);
+    }
+    if (s?.kind === 'schema' && typeof s.type === 'string') {
+        return describeValibot(s);
+    }
+    return leaf([], false);
+}
+
+/**
+ * Describe a Zod schema definition (v3 or v4).
+ *
+ * @param def - Zod definition (`_def` in v3, `_zod.def` in v4)
+ * @param optional - Whether an enclosing wrapper made the value optional
+ * @returns Schema shape
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function describeZod(def: any, optional = false): SchemaNode {
+    const type = normalizeZodType(def);
+
+    if (type in zodWrappers) {
+        const inner = def[zodWrappers[type]];
+        return describeZodSchema(inner, optional || optionalWrappers.includes(type));
+    }
+
+    switch (type) {
+        case 'object': {
+            const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
+            const entries: Record<string, SchemaNode> = {};
+            for (const key of Object.keys(shape)) {
+                entries[key] = describeZodSchema(shape[key]);
+            }
+            return { kind: 'object', entries, optional };
+        }
+        case 'array':
+            // v4: element, v3: type
+            return { kind: 'array', element: describeZodSchema(def.element ?? def.type), optional };
+        case 'lazy':
+            return describeZodSchema(def.getter(), optional);
+        case 'union':
+        case 'discriminatedUnion':
+            return unionLeaf(def.options.map((option: unknown) => describeZodSchema(option)), optional);
+        case 'enum':
+            // v4: entries object, v3: values array
+            return literalLeaf(def.entries ? Object.values(def.entries) : def.values, optional);
+        case 'nativeEnum':
+            return literalLeaf(Object.values(def.values), optional);
+        case 'literal':
+            // v4: values array, v3: value
+            return literalLeaf(def.values ?? [def.value], optional);
+        case 'string':
+            return leaf(['string'], optional, true);
+        case 'number':
+        case 'boolean':
+        case 'bigint':
+        case 'date':
+            return leaf([type], optional);
+        case 'bigInt':
+            // v3: ZodBigInt
+            return leaf(['bigint'], optional);
+        case 'record':
+        case 'tuple':
+        case 'map':
+        case 'set':
+            return leaf(['json'], optional);
+        default:
+            return leaf([], optional);
+    }
+}
+
+/**
+ * Describe a nested Zod schema.
+ *
+ * @param schema - Zod schema
+ * @param optional - Whether an enclosing wrapper made the value optional
+ * @returns Schema shape
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function describeZodSchema(schema: any, optional = false): SchemaNode {
+    return describeZod(schema?._zod?.def ?? schema?._def ?? {}, optional);
+}
+
+/**
+ * Normalize a Zod definition type: v3 'ZodOptional' → 'optional', v4 'optional' as-is.
+ *
+ * @param def - Zod definition
+ * @returns Lowercase-first type name
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function normalizeZodType(def: any): string {
+    if (typeof def.type === 'string') {
+        return def.type;
+    }
+    const typeName = String(def.typeName ?? '').replace(/^Zod/, '');
+    return typeName.charAt(0).toLowerCase() + typeName.slice(1);
+}
+
+/**
+ * Describe a Valibot schema.
+ *
+ * @param schema - Valibot schema
+ * @param optional - Whether an enclosing wrapper made the value optional
+ * @returns Schema shape
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function describeValibot(schema: any, optional = false): SchemaNode {
+    const type: string = schema.type;
+
+    if (valibotWrappers.includes(type)) {
+        return describeValibot(schema.wrapped, optional || optionalWrappers.includes(type));
+    }
+
+    switch (type) {
+        case 'object':
+        case 'loose_object':
+        case 'strict_object':
+        case 'object_with_rest': {
+            const entries: Record<string, SchemaNode> = {};
+            for (const key of Object.keys(schema.entries)) {
+                entries[key] = describeValibot(schema.entries[key]);
+            }
+            return { kind: 'object', entries, optional };
+        }
+        case 'array':
+            return { kind: 'array', element: describeValibot(schema.item), optional };
+        case 'lazy':
+            return describeValibot(schema.getter(undefined), optional);
+        case 'union':
+        case 'variant':
+            return unionLeaf(schema.options.map((option: unknown) => describeValibot(option)), optional);
+        case 'picklist':
+            return literalLeaf(schema.options, optional);
+        case 'enum':
+            return literalLeaf(Object.values(schema.enum), optional);
+        case 'literal':
+            return literalLeaf([schema.literal], optional);
+        case 'string':
+            return leaf(['string'], optional, true);
+        case 'number':
+        case 'boolean':
+        case 'bigint':
+        case 'date':
+            return leaf([type], optional);
+        case 'record':
+        case 'tuple':
+        case 'map':
+        case 'set':
+            return leaf(['json'], optional);
+        default:
+            return leaf([], optional);
+    }
+}
+
+/**
+ * Create a leaf node.
+ *
+ * @param types - Types the raw value may be coerced to
+ * @param optional - Whether the value is optional
+ * @param anyString - Whether any string is accepted (not only string literals)
+ * @param literals - String literals accepted by the leaf
+ * @returns Leaf node
+ */
+function leaf(types: LeafType[], optional: boolean, anyString = false, literals: string[] = []): SchemaNode {
+    return { kind: 'leaf', types: new Set(types), optional, anyString, literals: new Set(literals) };
+}
+
+/**
+ * Create the leaf node of literal values (enum members, literals, picklist options).
+ *
+ * @param values - Literal values
+ * @param optional - Whether the value is optional
+ * @returns Leaf node accepting the literals
+ */
+function literalLeaf(values: unknown[], optional: boolean): SchemaNode {
+    return leaf(literalTypes(values), optional, false, values.filter((value): value is string => typeof value === 'string'));
+}
+
+/**
+ * Create the leaf node of a union from the nodes of its options.
+ *
+ * @param options - Nodes of the union options
+ * @param optional - Whether the value is optional
+ * @returns Leaf node accepting the types of every option
+ */
+function unionLeaf(options: SchemaNode[], optional: boolean): SchemaNode {
+    return leaf(
+        options.flatMap(option => leafTypes(option)),
+        optional,
+        options.some(option => option.kind === 'leaf' && option.anyString),
+        options.flatMap(option => option.kind === 'leaf' ? [...option.literals] : [])
+    );
+}
+
+/**
+ * Leaf types accepted by a node (objects and arrays inside unions are parsed as JSON).
+ *
+ * @param node - Schema node
+ * @returns Leaf types
+ */
+function leafTypes(node: SchemaNode): LeafType[] {
+    return node.kind === 'leaf' ? [...node.types] : ['json'];
+}
+
+/**
+ * Leaf types of literal values (enum members, literals, picklist options).
+ *
+ * @param values - Literal values
+ * @returns Leaf types
+ */
+function literalTypes(values: unknown[]): LeafType[] {
+    return values.map(value => {
+        if (typeof value === 'number') {
+            return 'number';
+        }
+        return typeof value === 'boolean' ? 'boolean' : 'string';
+    });
+}
+
+/**
+ * Describe the type expected at a path within a schema, for issue reports.
+ *
+ * @param node - Root schema node
+ * @param segments - Property path segments
+ * @returns Type description (e.g., 'number', 'string | number', 'object')
+ */
+export function describeExpected(node: SchemaNode, segments: string[]): string {
+    let current: SchemaNode | undefined = node;
+    for (const segment of segments) {
+        if (current?.kind === 'object') {
+            current = current.entries[segment];
+        } else if (current?.kind === 'array') {
+            current = current.element;
+        } else {
+            current = undefined;
+        }
+    }
+
+    if (!current) {
+        return 'valid value';
+    }
+    if (current.kind !== 'leaf') {
+        return current.kind;
+    }
+    return current.types.size > 0 ? [...current.types].join(' | ') : 'valid value';
+}
@@ -0,0 +1,112 @@
+/**
+ * True if a single character is an uppercase letter.
+ */
+type IsUpper<C extends string> = C extends Lowercase<C> ? false : true;
+
+/**
+ * True if a single character is a lowercase letter.
+ */
+type IsLower<C extends string> = C extends Uppercase<C> ? false : true;
+
+/**
+ * '_' if an underscore is inserted before character C, mirroring the two
+ * replacements in {@link AutoEnvParse.toSnakeCase}:
+ * - 'XMLParser' → 'XML_Parser' (uppercase run followed by a capitalized word)
+ * - 'camelCase' → 'camel_Case' (lowercase followed by uppercase)
+ */
+type Separator<Prev extends string, C extends string, Rest extends string> =
+    IsUpper<C> extends true
+        ? IsLower<Prev> extends true
+            ? '_'
+            : IsUpper<Prev> extends true
+                ? Rest extends `${infer Next}${string}`
+                    ? IsLower<Next> extends true ? '_' : ''
+                    : ''
+                : ''
+        : '';
+
+/**
+ * Convert a camelCase string literal type to snake_case, mirroring {@link AutoEnvParse.toSnakeCase}.
+ *
+ * @example
+ * ```typescript
+ * type A = SnakeCase<'poolSize'>;   // 'pool_size'
+ * type B = SnakeCase<'HTTPSPort'>;  // 'https_port'
+ * ```
+ */
+export type SnakeCase<S extends string, Prev extends string = ''> =
+    S extends `${infer C}${infer Rest}`
+        ? `${Separator<Prev, C, Rest>}${Lowercase<C>}${SnakeCase<Rest, C>}`
+        : '';
+
+/**
+ * Environment variable name for a property key, mirroring `buildEnvVarName`.
+ *
+ * @example
+ * ```typescript
+ * type A = EnvVarName<'maxSize', 'DB'>; // 'DB_MAX_SIZE'
+ * type B = EnvVarName<'maxSize'>;       // 'MAX_SIZE'
+ * ```
+ */
+export type EnvVarName<K extends string, Prefix extends string = ''> =
+    Prefix extends '' ? Uppercase<SnakeCase<K>> : `${Prefix}_${Uppercase<SnakeCase<K>>}`;
+
+/**
+ * Values that are read from a single environment variable rather than walked into.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+type LeafObject = RegExp | Date | Function | Map<unknown, unknown> | Set<unknown>;
+
+/**
+ * URL components that can be set individually (e.g., `APP_API_URL_PORT`).
+ */
+type UrlComponent = 'PROTOCOL' | 'HOST' | 'PORT' | 'PATHNAME';
+
+/**
+ * Environment variable names for a single property value.
+ */
+type PropertyEnvVarNames<V, Name extends string> =
+    V extends readonly (infer E)[]
+        ? Name | (E extends Date | URL | RegExp
+            ? `${Name}_${number}`
+            : E extends LeafObject ? never : E extends object ? EnvVarNames<E, `${Name}_${number}`> : `${Name}_${number}`)
+        : V extends URL
+            ? Name | `${Name}_${UrlComponent}`
+            : V extends LeafObject
+                ? Name
+                : V extends object
+                    ? EnvVarNames<V, Name>
+                    : Name;
+
+/**
+ * Union of every environment variable name generated for a configuration object.
+ *
+ * Includes primitive properties, arrays (JSON), primitive array elements and properties
+ * of array elements (`${number}` index). Nested objects contribute the names of their properties,
+ * URLs their component names (`_PROTOCOL`, `_HOST`, `_PORT`, `_PATHNAME`).
+ * Methods are skipped.
+ *
+ * @example
+ * ```typescript
+ * const config = { host: 'localhost', port: 5432, pool: { maxSize: 10 }, servers: [{ host: '' }] };
+ *
+ * type Names = EnvVarNames<typeof config, 'DB'>;
+ * // 'DB_HOST' | 'DB_PORT' | 'DB_POOL_MAX_SIZE' | 'DB_SERVERS' | `DB_SERVERS_${number}_HOST`
+ * ```
+ */
+export type EnvVarNames<T, Prefix extends string = ''> = {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+    [K in keyof T & string]: T[K] extends Function ? never : PropertyEnvVarNames<T[K], EnvVarName<K, Prefix>>;
+}[keyof T & string];
+
+/**
+ * Property keys of a configuration object, or `string` when the type is not known
+ * (so helpers keep working without type arguments).
+ */
+export type PropertyKeys<T> = [keyof T & string] extends [never] ? string : keyof T & string;
+
+/**
+ * Type of a property, or `any` when the key is not a known property.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type PropertyValue<T, K> = K extends keyof T ? T[K] : any;
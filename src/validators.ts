@@ -0,0 +1,218 @@
+/**
+ * A validation rule for a single value.
+ *
+ * Returns `undefined` when the value is valid, otherwise a short description of
+ * what was expected (e.g., 'an integer', 'between 1 and 10'). The description is
+ * used for the `expected` field of the reported issue and completes the sentence
+ * "Must be ...".
+ *
+ * Use with {@link AutoEnvParse.validate} or as extra arguments to {@link AutoEnvParse.transform}.
+ *
+ * @example
+ * ```typescript
+ * const even: Validator = (value) => Number(value) % 2 === 0 ? undefined : 'an even number';
+ * ```
+ */
+export type Validator = (value: unknown) => string | undefined;
+
+/**
+ * Options for {@link validators.url}.
+ */
+export interface UrlValidatorOptions {
+    /**
+     * Allowed protocols without the trailing colon (e.g., ['https']).
+     * When not specified, any protocol is accepted.
+     */
+    protocols?: string[];
+}
+
+/**
+ * Options for {@link validators.oneOf}.
+ */
+export interface OneOfValidatorOptions {
+    /**
+     * Compare string values case-sensitively.
+     * @default true
+     */
+    caseSensitive?: boolean;
+}
+
+/**
+ * Convert a value to a number for numeric rules. Strings are converted with Number(),
+ * empty strings are rejected.
+ *
+ * @param value - Value to convert
+ * @returns Number, or NaN if the value is not numeric
+ */
+function toNumber(value: unknown): number {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+        return Number(value);
+    }
+    return NaN;
+}
+
+/**
+ * Convert a value to a string for string rules.
+ *
+ * @param value - Value to convert
+ * @returns String value
+ */
+function toText(value: unknown): string {
+    return typeof value === 'string' ? value : String(value);
+}
+
+/**
+ * Built-in validation rules, available as `AutoEnvParse.validators`.
+ *
+ * Rules are composable: pass several to {@link AutoEnvParse.validate} or
+ * {@link AutoEnvParse.transform} and they are checked in order. The first failing
+ * rule is reported through the configured `errorMode` and the default value is kept.
+ *
+ * @example
+ * ```typescript
+ * const { validators } = AutoEnvParse;
+ *
+ * const overrides = new Map([
+ *     ['port', AutoEnvParse.validate('port', validators.port())],
+ *     ['apiUrl', AutoEnvParse.validate('apiUrl', validators.url({ protocols: ['https'] }))],
+ *     ['name', AutoEnvParse.validate('name', validators.nonEmpty(), validators.maxLength(32))]
+ * ]);
+ * ```
+ */
+export const validators = {
+    /**
+     * Require a number within an inclusive range.
+     *
+     * @param min - Minimum value (inclusive)
+     * @param max - Maximum value (inclusive)
+     * @returns Validator
+     */
+    range(min: number, max: number): Validator {
+        return (value) => {
+            const num = toNumber(value);
+            return num >= min && num <= max ? undefined : `between ${min} and ${max}`;
+        };
+    },
+
+    /**
+     * Require a TCP/UDP port number (integer between 1 and 65535).
+     *
+     * @returns Validator
+     */
+    port(): Validator {
+        return (value) => {
+            const num = toNumber(value);
+            return Number.isInteger(num) && num >= 1 && num <= 65535 ? undefined : 'a port number (1-65535)';
+        };
+    },
+
+    /**
+     * Require a whole number.
+     *
+     * @returns Validator
+     */
+    integer(): Validator {
+        return (value) => Number.isInteger(toNumber(value)) ? undefined : 'an integer';
+    },
+
+    /**
+     * Require an absolute URL, optionally restricted to specific protocols.
+     *
+     * @param options - Allowed protocols
+     * @returns Validator
+     *
+     * @example
+     * ```typescript
+     * validators.url({ protocols: ['http', 'https'] })
+     * ```
+     */
+    url(options: UrlValidatorOptions = {}): Validator {
+        const protocols = options.protocols?.map(p => p.replace(/:$/, '').toLowerCase());
+        const expected = protocols ? `a URL with protocol ${protocols.join(' or ')}` : 'a valid URL';
+
+        return (value) => {
+            let parsed: URL;
+            try {
+                parsed = new URL(toText(value));
+            } catch {
+                return expected;
+            }
+            if (protocols && !protocols.includes(parsed.protocol.replace(/:$/, ''))) {
+                return expected;
+            }
+            return undefined;
+        };
+    },
+
+    /**
+     * Require an email address (basic `local@domain.tld` check).
+     *
+     * @returns Validator
+     */
+    email(): Validator {
+        return (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(toText(value)) ? undefined : 'a valid email address';
+    },
+
+    /**
+     * Require the value to match a regular expression.
+     *
+     * @param regex - Pattern to match
+     * @param description - Optional description used in error messages (defaults to the pattern)
+     * @returns Validator
+     */
+    pattern(regex: RegExp, description?: string): Validator {
+        return (value) => {
+            // Reset lastIndex so global/sticky patterns behave consistently across calls
+            regex.lastIndex = 0;
+            return regex.test(toText(value)) ? undefined : (description ?? `matching ${regex}`);
+        };
+    },
+
+    /**
+     * Require a string of at least `min` characters.
+     *
+     * @param min - Minimum length
+     * @returns Validator
+     */
+    minLength(min: number): Validator {
+        return (value) => toText(value).length >= min ? undefined : `at least ${min} characters long`;
+    },
+
+    /**
+     * Require a string of at most `max` characters.
+     *
+     * @param max - Maximum length
+     * @returns Validator
+     */
+    maxLength(max: number): Validator {
+        return (value) => toText(value).length <= max ? undefined : `at most ${max} characters long`;
+    },
+
+    /**
+     * Require one of the allowed values. Unlike enumValidator, this only checks the
+     * value and can be combined with other rules.
+     *
+     * @param allowedValues - Allowed values (strings, numbers or booleans)
+     * @param options - Optional case sensitivity for strings
+     * @returns Validator
+     */
+    oneOf(allowedValues: Array<string | number | boolean>, options: OneOfValidatorOptions = {}): Validator {
+        const { caseSensitive = true } = options;
+        const normalize = (v: unknown): unknown => !caseSensitive && typeof v === 'string' ? v.toLowerCase() : v;
+        const allowed = allowedValues.map(normalize);
+
+        return (value) => allowed.includes(normalize(value)) ? undefined : `one of: ${allowedValues.join(', ')}`;
+    },
+
+    /**
+     * Require a value that is not empty or whitespace-only.
+     *
+     * @returns Validator
+     */
+    nonEmpty(): Validator {
+        return (value) => toText(value).trim() !== '' ? undefined : 'non-empty';
+    }
+};
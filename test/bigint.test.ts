@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError } from '../src/errors';
+
+/**
+ * Tests for bigint properties.
+ */
+describe('AutoEnvParse - BigInt', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('parseBigInt()', () => {
+        it('should parse decimal and hexadecimal integers', () => {
+            expect(AutoEnvParse.parseBigInt('9007199254740993')).toBe(9007199254740993n);
+            expect(AutoEnvParse.parseBigInt('-42')).toBe(-42n);
+            expect(AutoEnvParse.parseBigInt('0xFFFFFFFFFFFFFFFF')).toBe(18446744073709551615n);
+            expect(AutoEnvParse.parseBigInt('-0xff')).toBe(-255n);
+            expect(AutoEnvParse.parseBigInt(' 1_000_000 ')).toBe(1000000n);
+        });
+
+        it('should reject non-integers', () => {
+            for (const value of ['', 'abc', '1.5', '1e10', '0x', '12abc', '_1']) {
+                expect(() => AutoEnvParse.parseBigInt(value)).toThrow(CoercionError);
+            }
+        });
+
+        it('should be available through coerceValue()', () => {
+            expect(AutoEnvParse.coerceValue('0x10', 'bigint')).toBe(16n);
+        });
+    });
+
+    it('should parse bigint properties instead of turning them into strings', () => {
+        process.env.TEST_SNOWFLAKE_OFFSET = '1288834974657000000000';
+        process.env.TEST_QUOTA = '0x1000000000000';
+
+        const config = AutoEnvParse.parse(
+            { snowflakeOffset: 0n, quota: 1n, name: 'x' },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.snowflakeOffset).toBe(1288834974657000000000n);
+        expect(config.quota).toBe(0x1000000000000n);
+    });
+
+    it('should report invalid values and keep the default', () => {
+        process.env.TEST_QUOTA = '12.5';
+
+        const result = AutoEnvParse.safeParse({ quota: 10n }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.success).toBe(false);
+        expect(result.data.quota).toBe(10n);
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_QUOTA',
+            expected: 'bigint',
+            message: 'Invalid bigint value for TEST_QUOTA: "12.5"'
+        });
+    });
+
+    it('should parse bigints in nested objects and array elements', () => {
+        process.env.TEST_LIMITS_MAX = '18446744073709551615';
+        process.env.TEST_SHARDS_0_START = '9007199254740993';
+
+        const config = AutoEnvParse.parse(
+            { limits: { max: 0n, min: 0n }, shards: [{ start: 0n }] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.limits).toEqual({ max: 18446744073709551615n, min: 0n });
+        expect(config.shards[0].start).toBe(9007199254740993n);
+    });
+
+    it('should parse bigints from JSON without losing precision', () => {
+        process.env.TEST_LIMITS = '{"max": 9007199254740993, "min": "0x10", "label": "12345678901234567890"}';
+        process.env.TEST_IDS = '[9007199254740993, "42", 7]';
+
+        const config = AutoEnvParse.parse(
+            { limits: { max: 0n, min: 0n, label: '' }, ids: [0n] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.limits).toEqual({ max: 9007199254740993n, min: 16n, label: '12345678901234567890' });
+        expect(config.ids).toEqual([9007199254740993n, 42n, 7n]);
+    });
+
+    it('should keep large JSON integers as numbers for number properties', () => {
+        process.env.TEST_VALUES = '[12345678901234567890, 1.25, -99999999999999999]';
+
+        const config = AutoEnvParse.parse({ values: [0] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.values).toEqual([Number('12345678901234567890'), 1.25, Number('-99999999999999999')]);
+    });
+
+    it('should report non-integer JSON values for bigint properties', () => {
+        process.env.TEST_IDS = '[1, 2.5]';
+
+        const result = AutoEnvParse.safeParse({ ids: [0n] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.issues[0]).toMatchObject({ envVar: 'TEST_IDS', path: 'ids.1', value: '2.5', expected: 'bigint' });
+        expect(result.data.ids).toEqual([1n, 0n]);
+    });
+
+    it('should clone bigint defaults in nested objects', () => {
+        const defaults = { max: 5n, min: 1n };
+        process.env.TEST_MAX = '10';
+
+        const config = AutoEnvParse.loadNestedFromEnv('TEST', defaults);
+
+        expect(config).toEqual({ max: 10n, min: 1n });
+        expect(defaults.max).toBe(5n);
+    });
+
+    it('should coerce bigints before validation rules', () => {
+        process.env.TEST_QUOTA = 'lots';
+
+        const result = AutoEnvParse.safeParse(
+            { quota: 1n },
+            { prefix: 'TEST', sources: ['env'], overrides: { quota: AutoEnvParse.validate('quota') } }
+        );
+
+        expect(result.issues[0].message).toBe('Invalid bigint value for TEST_QUOTA: "lots"');
+    });
+});
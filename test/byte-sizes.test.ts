@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError } from '../src/errors';
+
+/**
+ * Tests for byte-size values.
+ */
+describe('AutoEnvParse - Byte Sizes', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('parseByteSize()', () => {
+        it('should parse SI suffixes as powers of 1000', () => {
+            expect(AutoEnvParse.parseByteSize('1KB')).toBe(1000);
+            expect(AutoEnvParse.parseByteSize('512MB')).toBe(512_000_000);
+            expect(AutoEnvParse.parseByteSize('2GB')).toBe(2_000_000_000);
+            expect(AutoEnvParse.parseByteSize('1TB')).toBe(1e12);
+        });
+
+        it('should parse IEC suffixes as powers of 1024', () => {
+            expect(AutoEnvParse.parseByteSize('1KiB')).toBe(1024);
+            expect(AutoEnvParse.parseByteSize('1.5GiB')).toBe(1_610_612_736);
+            expect(AutoEnvParse.parseByteSize('2 MiB')).toBe(2_097_152);
+        });
+
+        it('should be case-insensitive', () => {
+            expect(AutoEnvParse.parseByteSize('64kib')).toBe(65536);
+            expect(AutoEnvParse.parseByteSize('10mb')).toBe(10_000_000);
+            expect(AutoEnvParse.parseByteSize('3b')).toBe(3);
+        });
+
+        it('should read bare numbers as bytes', () => {
+            expect(AutoEnvParse.parseByteSize('1024')).toBe(1024);
+        });
+
+        it('should round fractional values to whole bytes', () => {
+            expect(AutoEnvParse.parseByteSize('1.0005KB')).toBe(1001);
+            expect(AutoEnvParse.parseByteSize('0.1KiB')).toBe(102);
+            expect(Number.isInteger(AutoEnvParse.parseByteSize('.3MiB'))).toBe(true);
+        });
+
+        it('should reject negative, overflowing and malformed values', () => {
+            for (const value of ['', '-1MB', '10EB', '9007199254740993', 'MB', '512M', '1 XB', '1.2.3KB']) {
+                expect(() => AutoEnvParse.parseByteSize(value)).toThrow(CoercionError);
+            }
+        });
+
+        it('should be available through coerceValue()', () => {
+            expect(AutoEnvParse.coerceValue('1MiB', 'bytes')).toBe(1_048_576);
+        });
+    });
+
+    describe('byteSizes option', () => {
+        it('should parse declared top-level and nested properties', () => {
+            process.env.TEST_BODY_LIMIT = '1MB';
+            process.env.TEST_CACHE_MAX_SIZE = '256MiB';
+
+            const config = AutoEnvParse.parse(
+                { bodyLimit: 100_000, cache: { maxSize: 0 }, port: 3000 },
+                { prefix: 'TEST', sources: ['env'], byteSizes: ['bodyLimit', 'cache.maxSize'] }
+            );
+
+            expect(config).toEqual({ bodyLimit: 1_000_000, cache: { maxSize: 268_435_456 }, port: 3000 });
+        });
+
+        it('should parse byte sizes in array elements', () => {
+            process.env.TEST_UPLOADS_0_CAP = '5MB';
+            process.env.TEST_UPLOADS_1_CAP = '1GiB';
+
+            const config = AutoEnvParse.parse(
+                { uploads: [{ path: '/tmp', cap: 0 }] },
+                { prefix: 'TEST', sources: ['env'], byteSizes: ['uploads.*.cap'] }
+            );
+
+            expect(config.uploads.map(u => u.cap)).toEqual([5_000_000, 1_073_741_824]);
+        });
+
+        it('should apply a declaration on an array of numbers to its elements', () => {
+            process.env.TEST_CAPS = '1KB,2KiB';
+            process.env.TEST_LIMITS = '["5MB", 10]';
+            process.env.TEST_QUOTAS_0 = '1GB';
+
+            const config = AutoEnvParse.parse(
+                { caps: [0], limits: [0], quotas: [0] },
+                { prefix: 'TEST', sources: ['env'], byteSizes: ['caps', 'limits', 'quotas'] }
+            );
+
+            expect(config.caps).toEqual([1000, 2048]);
+            expect(config.limits).toEqual([5_000_000, 10]);
+            expect(config.quotas).toEqual([1_000_000_000]);
+        });
+
+        it('should parse byte size strings inside JSON values', () => {
+            process.env.TEST_UPLOADS = '[{"cap":"10KB"},{"cap":2048}]';
+
+            const config = AutoEnvParse.parse(
+                { uploads: [{ cap: 0 }] },
+                { prefix: 'TEST', sources: ['env'], byteSizes: ['uploads.*.cap'] }
+            );
+
+            expect(config.uploads.map(u => u.cap)).toEqual([10_000, 2048]);
+        });
+
+        it('should report invalid values and keep the default', () => {
+            process.env.TEST_BODY_LIMIT = '-5MB';
+
+            const result = AutoEnvParse.safeParse({ bodyLimit: 100 }, { prefix: 'TEST', sources: ['env'], byteSizes: ['bodyLimit'] });
+
+            expect(result.success).toBe(false);
+            expect(result.data.bodyLimit).toBe(100);
+            expect(result.issues[0]).toMatchObject({
+                envVar: 'TEST_BODY_LIMIT',
+                expected: 'byte size',
+                message: 'Invalid byte size value for TEST_BODY_LIMIT: "-5MB"'
+            });
+        });
+    });
+
+    describe('byteSize() override', () => {
+        it('should parse the property', () => {
+            process.env.TEST_BODY_LIMIT = '2KiB';
+
+            const config = AutoEnvParse.parse(
+                { bodyLimit: 100 },
+                { prefix: 'TEST', sources: ['env'], overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit') } }
+            );
+
+            expect(config.bodyLimit).toBe(2048);
+        });
+
+        it('should check validation rules against the number of bytes', () => {
+            process.env.TEST_BODY_LIMIT = '1GB';
+
+            expect(() => AutoEnvParse.parse(
+                { bodyLimit: 100 },
+                {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit', AutoEnvParse.validators.range(1, 10_000_000)) }
+                }
+            )).toThrow('Invalid value for TEST_BODY_LIMIT: "1GB". Must be between 1 and 10000000');
+        });
+
+        it('should report invalid sizes', () => {
+            process.env.TEST_BODY_LIMIT = 'huge';
+
+            const result = AutoEnvParse.safeParse(
+                { bodyLimit: 100 },
+                { prefix: 'TEST', sources: ['env'], overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit') } }
+            );
+
+            expect(result.issues[0].message).toBe('Invalid byte size value for TEST_BODY_LIMIT: "huge"');
+            expect(result.data.bodyLimit).toBe(100);
+        });
+
+        it('should report invalid sizes like the byteSizes option', () => {
+            process.env.TEST_BODY_LIMIT = '1XB';
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            const option = AutoEnvParse.safeParse({ bodyLimit: 100 }, { prefix: 'TEST', sources: ['env'], byteSizes: ['bodyLimit'] });
+            const helper = AutoEnvParse.safeParse(
+                { bodyLimit: 100 },
+                { prefix: 'TEST', sources: ['env'], overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit') } }
+            );
+
+            expect(helper.data).toEqual(option.data);
+            expect(helper.issues).toEqual(option.issues);
+            expect(() => AutoEnvParse.parse(
+                { bodyLimit: 100 },
+                { prefix: 'TEST', sources: ['env'], overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit') } }
+            )).not.toThrow();
+            expect(() => AutoEnvParse.parse(
+                { bodyLimit: 100 },
+                { prefix: 'TEST', sources: ['env'], strict: true, overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit') } }
+            )).toThrow('Invalid byte size value for TEST_BODY_LIMIT: "1XB"');
+        });
+
+        it('should treat empty values as unset', () => {
+            process.env.TEST_BODY_LIMIT = '';
+
+            const result = AutoEnvParse.safeParse(
+                { bodyLimit: 100 },
+                { prefix: 'TEST', sources: ['env'], overrides: { bodyLimit: AutoEnvParse.byteSize('bodyLimit') } }
+            );
+
+            expect(result.data.bodyLimit).toBe(100);
+            expect(result.issues).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { AutoEnvParse, Logger } from '../src/autoEnvParse';
+
+/**
+ * Tests for case-insensitive variable names.
+ */
+describe('AutoEnvParse - Case-Insensitive Lookup', () => {
+    const originalEnv = { ...process.env };
+    const envFile = path.join(process.cwd(), '.env.case-test');
+
+    const createLogger = (): Logger => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.toUpperCase().startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        if (fs.existsSync(envFile)) {
+            fs.unlinkSync(envFile);
+        }
+        vi.restoreAllMocks();
+    });
+
+    it('should ignore lowercase names by default', () => {
+        process.env.test_db_host = 'db.internal';
+        process.env.test_servers_0_host = 'a.com';
+
+        const config = AutoEnvParse.parse({ dbHost: 'localhost', servers: [{ host: 'b.com' }] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config).toEqual({ dbHost: 'localhost', servers: [{ host: 'b.com' }] });
+    });
+
+    it('should read lowercase and mixed-case names', () => {
+        fs.writeFileSync(envFile, 'test_db_host=db.internal\nTest_Port=6543\n');
+        process.env.test_servers_0_host = 'a.com';
+        process.env.Test_Servers_1_Host = 'b.com';
+        process.env.test_api_port = '8443';
+
+        const config = AutoEnvParse.parse(
+            { dbHost: 'localhost', port: 5432, servers: [{ host: '' }], api: new URL('https://api.example.com') },
+            { prefix: 'TEST', sources: ['env', '.env.case-test'], caseInsensitive: true }
+        );
+
+        expect(config.dbHost).toBe('db.internal');
+        expect(config.port).toBe(6543);
+        expect(config.servers).toEqual([{ host: 'a.com' }, { host: 'b.com' }]);
+        expect(config.api.port).toBe('8443');
+    });
+
+    it('should apply to records, overrides and unknown variables', () => {
+        process.env.test_databases_primary_host = 'db1';
+        process.env.test_level = 'debug';
+        process.env.test_hots = 'typo';
+
+        const result = AutoEnvParse.safeParse(
+            { databases: {} as Record<string, { host: string }>, level: 'info', host: '' },
+            {
+                prefix: 'TEST',
+                sources: ['env'],
+                caseInsensitive: true,
+                records: { databases: { host: '' } },
+                overrides: { level: AutoEnvParse.enumValidator('level', ['debug', 'info']) },
+                unknownVariables: 'error'
+            }
+        );
+
+        expect(result.data.databases).toEqual({ primary: { host: 'db1' } });
+        expect(result.data.level).toBe('debug');
+        expect(result.issues.map(issue => issue.message)).toEqual(['Unknown environment variable TEST_HOTS (did you mean TEST_HOST?)']);
+    });
+
+    describe('collisions', () => {
+        it('should prefer the higher-priority source and warn', () => {
+            fs.writeFileSync(envFile, 'test_host=from-file\n');
+            process.env.TEST_HOST = 'from-env';
+            const logger = createLogger();
+
+            const { data, provenance } = AutoEnvParse.parse(
+                { host: 'localhost' },
+                { prefix: 'TEST', sources: ['env', '.env.case-test'], caseInsensitive: true, logger, provenance: true }
+            );
+
+            expect(data.host).toBe('from-env');
+            expect(provenance.get('host')).toMatchObject({ envVar: 'TEST_HOST', file: undefined });
+            expect(logger.warn).toHaveBeenCalledWith('Environment variables test_host and TEST_HOST differ only in case. Using TEST_HOST.');
+        });
+
+        it('should prefer the upper-case name within one source', () => {
+            fs.writeFileSync(envFile, 'test_host=lower\nTEST_HOST=upper\n');
+            const logger = createLogger();
+
+            const { data, provenance } = AutoEnvParse.parse(
+                { host: 'localhost' },
+                { prefix: 'TEST', sources: ['.env.case-test'], caseInsensitive: true, logger, provenance: true }
+            );
+
+            expect(data.host).toBe('upper');
+            expect(provenance.get('host')).toMatchObject({ file: '.env.case-test', line: 2 });
+            expect(logger.warn).toHaveBeenCalledWith('Environment variables test_host and TEST_HOST differ only in case. Using TEST_HOST.');
+        });
+    });
+
+    it('should upper-case names of custom naming strategies', () => {
+        process.env['TEST-DB-POOL_SIZE'] = '20';
+
+        const config = AutoEnvParse.parse(
+            { db: { poolSize: 10 } },
+            { prefix: 'TEST', sources: ['env'], caseInsensitive: true, naming: path => path.map(segment => AutoEnvParse.toSnakeCase(segment)).join('-') }
+        );
+
+        expect(config.db.poolSize).toBe(20);
+    });
+
+    it('should apply to parseSchema()', () => {
+        process.env.test_port = '8080';
+
+        const config = AutoEnvParse.parseSchema(
+            z.object({ port: z.coerce.number() }),
+            { prefix: 'TEST', sources: ['env'], caseInsensitive: true }
+        );
+
+        expect(config.port).toBe(8080);
+    });
+});
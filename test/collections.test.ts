@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+
+/**
+ * Tests for Map and Set properties.
+ */
+describe('AutoEnvParse - Map and Set', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('Set', () => {
+        it('should parse a comma-separated list', () => {
+            process.env.TEST_ALLOWLIST = 'alice, bob,,carol';
+
+            const config = AutoEnvParse.parse({ allowlist: new Set(['admin']) }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config.allowlist).toBeInstanceOf(Set);
+            expect([...config.allowlist]).toEqual(['alice', 'bob', 'carol']);
+        });
+
+        it('should parse a JSON array', () => {
+            process.env.TEST_ALLOWLIST = '["alice","bob","alice"]';
+
+            const config = AutoEnvParse.parse({ allowlist: new Set<string>() }, { prefix: 'TEST', sources: ['env'] });
+
+            expect([...config.allowlist]).toEqual(['alice', 'bob']);
+        });
+
+        it('should infer the element type from existing entries', () => {
+            process.env.TEST_PORTS = '80,443';
+            process.env.TEST_FLAGS = '[true, "false"]';
+
+            const config = AutoEnvParse.parse(
+                { ports: new Set([8080]), flags: new Set([false]) },
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect([...config.ports]).toEqual([80, 443]);
+            expect([...config.flags]).toEqual([true, false]);
+        });
+
+        it('should keep the default Set when the variable is not set', () => {
+            const allowlist = new Set(['admin']);
+
+            const config = AutoEnvParse.parse({ allowlist }, { prefix: 'TEST', sources: ['env'] });
+
+            expect([...config.allowlist]).toEqual(['admin']);
+        });
+
+        it('should report invalid elements and keep the default', () => {
+            process.env.TEST_PORTS = '80,http';
+
+            const result = AutoEnvParse.safeParse({ ports: new Set([8080]) }, { prefix: 'TEST', sources: ['env'], strict: true });
+
+            expect([...result.data.ports]).toEqual([8080]);
+            expect(result.issues[0]).toMatchObject({ envVar: 'TEST_PORTS', path: 'ports.1', value: 'http', expected: 'number' });
+        });
+
+        it('should report JSON that is not an array', () => {
+            process.env.TEST_ALLOWLIST = '{"a":1}';
+
+            const result = AutoEnvParse.safeParse({ allowlist: new Set(['admin']) }, { prefix: 'TEST', sources: ['env'], errorMode: 'collect' });
+
+            expect([...result.data.allowlist]).toEqual(['admin']);
+            expect(result.issues[0].message).toBe('Invalid TEST_ALLOWLIST format. Expected JSON array or comma-separated list.');
+        });
+    });
+
+    describe('Map', () => {
+        it('should parse key=value pairs', () => {
+            process.env.TEST_TENANT_LIMITS = 'acme=100, globex=250';
+
+            const config = AutoEnvParse.parse(
+                { tenantLimits: new Map([['default', 10]]) },
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect(config.tenantLimits).toBeInstanceOf(Map);
+            expect([...config.tenantLimits]).toEqual([['acme', 100], ['globex', 250]]);
+        });
+
+        it('should parse a JSON object', () => {
+            process.env.TEST_TENANT_LIMITS = '{"acme": 100, "globex": "250"}';
+
+            const config = AutoEnvParse.parse(
+                { tenantLimits: new Map([['default', 10]]) },
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect(config.tenantLimits.get('acme')).toBe(100);
+            expect(config.tenantLimits.get('globex')).toBe(250);
+        });
+
+        it('should infer key types from existing entries', () => {
+            process.env.TEST_SHARD_HOSTS = '1=db-1.internal,2=db-2.internal';
+
+            const config = AutoEnvParse.parse(
+                { shardHosts: new Map([[0, 'localhost']]) },
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect(config.shardHosts.get(1)).toBe('db-1.internal');
+            expect(config.shardHosts.get(2)).toBe('db-2.internal');
+        });
+
+        it('should keep values as strings for an empty default', () => {
+            process.env.TEST_LABELS = 'team=core,tier=1';
+
+            const config = AutoEnvParse.parse({ labels: new Map<string, string>() }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(Object.fromEntries(config.labels)).toEqual({ team: 'core', tier: '1' });
+        });
+
+        it('should report malformed pairs and keep the default', () => {
+            process.env.TEST_TENANT_LIMITS = 'acme=100,globex';
+
+            const result = AutoEnvParse.safeParse(
+                { tenantLimits: new Map([['default', 10]]) },
+                { prefix: 'TEST', sources: ['env'], errorMode: 'collect' }
+            );
+
+            expect([...result.data.tenantLimits]).toEqual([['default', 10]]);
+            expect(result.issues[0]).toMatchObject({
+                envVar: 'TEST_TENANT_LIMITS',
+                expected: 'JSON object or key=value list',
+                message: 'Invalid TEST_TENANT_LIMITS format. Expected JSON object or key=value list.'
+            });
+        });
+
+        it('should skip empty pairs', () => {
+            process.env.TEST_TENANT_LIMITS = 'acme=100,,globex=250';
+
+            const config = AutoEnvParse.parse({ tenantLimits: new Map([['default', 10]]) }, { prefix: 'TEST', sources: ['env'] });
+
+            expect([...config.tenantLimits]).toEqual([['acme', 100], ['globex', 250]]);
+        });
+
+        it('should keep the default when the only entry is invalid', () => {
+            process.env.TEST_LIMITS = 't1=abc';
+
+            const result = AutoEnvParse.safeParse({ limits: new Map([['t', 0]]) }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(result.data.limits).toEqual(new Map([['t', 0]]));
+            expect(result.issues[0]).toMatchObject({ envVar: 'TEST_LIMITS', path: 'limits.t1', value: 'abc', expected: 'number' });
+        });
+
+        it('should report invalid values and keep the default', () => {
+            process.env.TEST_TENANT_LIMITS = 'acme=100,globex=lots';
+
+            const result = AutoEnvParse.safeParse(
+                { tenantLimits: new Map([['default', 10]]) },
+                { prefix: 'TEST', sources: ['env'], errorMode: 'collect' }
+            );
+
+            expect([...result.data.tenantLimits]).toEqual([['default', 10]]);
+            expect(result.issues).toHaveLength(1);
+            expect(result.issues[0]).toMatchObject({ envVar: 'TEST_TENANT_LIMITS', path: 'tenantLimits.globex', value: 'lots', expected: 'number' });
+        });
+
+        it.each(['{bad', '[1,2]'])('should report %s and keep the default', value => {
+            process.env.TEST_TENANT_LIMITS = value;
+
+            const result = AutoEnvParse.safeParse(
+                { tenantLimits: new Map([['default', 10]]) },
+                { prefix: 'TEST', sources: ['env'], errorMode: 'collect' }
+            );
+
+            expect([...result.data.tenantLimits]).toEqual([['default', 10]]);
+            expect(result.issues[0].message).toBe('Invalid TEST_TENANT_LIMITS format. Expected JSON object or key=value list.');
+        });
+
+        it('should revive object values from JSON', () => {
+            process.env.TEST_TENANTS = '{"acme": {"limit": 100}}';
+
+            const config = AutoEnvParse.parse(
+                { tenants: new Map([['default', { limit: 10 }]]) },
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect(config.tenants).toEqual(new Map([['acme', { limit: 100 }]]));
+        });
+    });
+
+    it('should populate collections in nested objects and array elements', () => {
+        process.env.TEST_AUTH_ROLES = 'read,write';
+        process.env.TEST_TENANTS_0_LIMITS = 'api=5';
+
+        const config = AutoEnvParse.parse(
+            { auth: { roles: new Set(['read']) }, tenants: [{ name: 'a', limits: new Map([['api', 1]]) }] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect([...config.auth.roles]).toEqual(['read', 'write']);
+        expect(config.tenants[0].limits.get('api')).toBe(5);
+    });
+
+    it('should populate collections inside JSON values', () => {
+        process.env.TEST_AUTH = '{"roles": ["admin"], "limits": {"api": "7"}}';
+
+        const config = AutoEnvParse.parse(
+            { auth: { roles: new Set(['read']), limits: new Map([['api', 1]]) } },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.auth.roles).toEqual(new Set(['admin']));
+        expect(config.auth.limits).toEqual(new Map([['api', 7]]));
+    });
+
+    it('should report collections of the wrong shape inside JSON values', () => {
+        process.env.TEST_AUTH = '{"roles": {"admin": true}, "limits": [1]}';
+
+        const result = AutoEnvParse.safeParse(
+            { auth: { roles: new Set(['read']), limits: new Map([['api', 1]]) } },
+            { prefix: 'TEST', sources: ['env'], errorMode: 'collect' }
+        );
+
+        expect(result.data.auth.roles).toEqual(new Set(['read']));
+        expect(result.data.auth.limits).toEqual(new Map([['api', 1]]));
+        expect(result.issues.map(issue => issue.message)).toEqual([
+            'Invalid TEST_AUTH format. Expected JSON array for "auth.roles".',
+            'Invalid TEST_AUTH format. Expected JSON object for "auth.limits".'
+        ]);
+    });
+
+    it('should not share collections with array element templates', () => {
+        const template = { roles: new Set(['read']) };
+        process.env.TEST_USERS_0_ROLES = 'admin';
+        process.env.TEST_USERS_1_ROLES = 'write';
+
+        const config = AutoEnvParse.parse({ users: [template] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect([...config.users[0].roles]).toEqual(['admin']);
+        expect([...config.users[1].roles]).toEqual(['write']);
+        expect([...template.roles]).toEqual(['read']);
+    });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse, ValidationResult } from '../src/autoEnvParse';
+import { EnvValidationError } from '../src/errors';
+
+/**
+ * Tests for the validate option and validateEnv() lifecycle method.
+ */
+describe('AutoEnvParse - Cross-Field Validation', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    const validateDb = (config: { ssl: boolean; certPath: string; pool: { min: number; max: number } }): ValidationResult => {
+        const failures = [];
+        if (config.ssl && !config.certPath) {
+            failures.push({ path: 'certPath', message: 'certPath is required when ssl is enabled' });
+        }
+        if (config.pool.min > config.pool.max) {
+            failures.push({ path: 'pool.min', message: 'pool.min must not exceed pool.max' });
+        }
+        return failures;
+    };
+
+    describe('validate option', () => {
+        it('should pass the fully populated object', () => {
+            const validate = vi.fn();
+
+            process.env.TEST_POOL_MAX = '20';
+            process.env.TEST_SERVERS_0_HOST = 'a.com';
+
+            AutoEnvParse.parse({ pool: { max: 10 }, servers: [{ host: 'localhost' }] }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                validate
+            });
+
+            expect(validate).toHaveBeenCalledWith({ pool: { max: 20 }, servers: [{ host: 'a.com' }] });
+        });
+
+        it('should succeed when nothing is returned', () => {
+            process.env.TEST_SSL = 'true';
+            process.env.TEST_CERT_PATH = '/etc/cert.pem';
+
+            const config = AutoEnvParse.parse({ ssl: false, certPath: '', pool: { min: 1, max: 10 } }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                validate: validateDb
+            });
+
+            expect(config.ssl).toBe(true);
+        });
+
+        it('should report failures with env var names and values', () => {
+            process.env.TEST_SSL = 'true';
+            process.env.TEST_POOL_MIN = '50';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parse({ ssl: false, certPath: '', pool: { min: 1, max: 10 } }, {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    validate: validateDb
+                });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(EnvValidationError);
+            expect((error as EnvValidationError).issues).toEqual([
+                {
+                    envVar: 'TEST_CERT_PATH',
+                    path: 'certPath',
+                    value: undefined,
+                    expected: 'valid configuration',
+                    source: undefined,
+                    message: 'certPath is required when ssl is enabled'
+                },
+                {
+                    envVar: 'TEST_POOL_MIN',
+                    path: 'pool.min',
+                    value: '50',
+                    expected: 'valid configuration',
+                    source: 'env',
+                    message: 'pool.min must not exceed pool.max'
+                }
+            ]);
+        });
+
+        it('should accept plain messages and thrown errors', () => {
+            const messages = AutoEnvParse.safeParse({ a: 1 }, { sources: ['env'], validate: () => 'bad config' }).issues;
+            const thrown = AutoEnvParse.safeParse({ a: 1 }, {
+                sources: ['env'],
+                validate: () => {
+                    throw new Error('boom');
+                }
+            }).issues;
+
+            expect(messages).toEqual([expect.objectContaining({ envVar: '', path: '', message: 'bad config' })]);
+            expect(thrown).toEqual([expect.objectContaining({ message: 'boom' })]);
+        });
+
+        it('should merge failures with other issues', () => {
+            process.env.TEST_PORT = 'abc';
+
+            const result = AutoEnvParse.safeParse({ port: 3000, host: '' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                required: ['host'],
+                validate: (config) => config.port < 1024 ? 'port must be unprivileged' : undefined
+            });
+
+            expect(result.issues.map(i => i.message)).toEqual([
+                'Invalid number value for TEST_PORT: "abc"',
+                'Missing required environment variable TEST_HOST'
+            ]);
+
+            const failing = AutoEnvParse.safeParse({ port: 3000, host: '' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                required: ['host'],
+                validate: () => ['first', 'second']
+            });
+
+            expect(failing.issues.map(i => i.message)).toEqual([
+                'Invalid number value for TEST_PORT: "abc"',
+                'Missing required environment variable TEST_HOST',
+                'first',
+                'second'
+            ]);
+        });
+
+        it('should only warn in warn mode', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            AutoEnvParse.parse({ a: 1 }, { sources: ['env'], errorMode: 'warn', validate: () => 'bad config' });
+
+            expect(warnSpy).toHaveBeenCalledWith('Warning: bad config');
+        });
+
+        it.each([
+            ['a number', 42],
+            ['null', null],
+            ['an object without a message', { path: 'a' }],
+            ['an array with a number', ['first', 2]]
+        ])('should reject %s as a result', (_description, result) => {
+            expect(() => AutoEnvParse.parse({ a: 1 }, { sources: ['env'], validate: () => result as never }))
+                .toThrow(new TypeError('Invalid cross-field validation result. Return nothing, a message, a { path, message } object or an array of them.'));
+        });
+
+        it('should reject asynchronous validation', async () => {
+            const validate = async (): Promise<string> => {
+                throw new Error('checked too late');
+            };
+
+            expect(() => AutoEnvParse.parse({ a: 1 }, { sources: ['env'], validate: validate as never }))
+                .toThrow(new TypeError('Cross-field validation returned a Promise. Asynchronous validation is not supported.'));
+            // The rejection is handled, so it does not fail the run as an unhandled rejection
+            await new Promise(resolve => setTimeout(resolve, 0));
+        });
+    });
+
+    describe('validateEnv() lifecycle method', () => {
+        class DbConfig {
+            ssl = false;
+            certPath = '';
+            pool = { min: 1, max: 10 };
+
+            validateEnv(): ValidationResult {
+                return validateDb(this);
+            }
+        }
+
+        it('should run on class instances after parsing', () => {
+            process.env.TEST_SSL = 'true';
+
+            const result = AutoEnvParse.safeParse(DbConfig, { prefix: 'TEST', sources: ['env'] });
+
+            expect(result.success).toBe(false);
+            expect(result.data).toBeInstanceOf(DbConfig);
+            expect(result.issues.map(i => i.envVar)).toEqual(['TEST_CERT_PATH']);
+        });
+
+        it('should run before the validate option', () => {
+            process.env.TEST_SSL = 'true';
+
+            const result = AutoEnvParse.safeParse(DbConfig, {
+                prefix: 'TEST',
+                sources: ['env'],
+                validate: () => 'from option'
+            });
+
+            expect(result.issues.map(i => i.message)).toEqual(['certPath is required when ssl is enabled', 'from option']);
+        });
+
+        it('should pass when valid', () => {
+            process.env.TEST_SSL = 'true';
+            process.env.TEST_CERT_PATH = '/etc/cert.pem';
+
+            expect(AutoEnvParse.parse(DbConfig, { prefix: 'TEST', sources: ['env'] }).certPath).toBe('/etc/cert.pem');
+        });
+    });
+});
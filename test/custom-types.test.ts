@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse, TypeCoercer, TypeConstructor, TypeHint } from '../src/autoEnvParse';
+
+class Money {
+    constructor(readonly cents: number, readonly currency = 'USD') {}
+
+    static parse(value: string): Money {
+        const match = value.match(/^(\d+)(?:\.(\d{2}))?\s*([A-Z]{3})?$/);
+        if (!match) {
+            throw new Error(`Invalid amount: ${value}`);
+        }
+        return new Money(Number(match[1]) * 100 + Number(match[2] ?? 0), match[3]);
+    }
+
+    format(): string {
+        return `${(this.cents / 100).toFixed(2)} ${this.currency}`;
+    }
+}
+
+class Percentage {
+    constructor(readonly value: number) {}
+}
+
+/**
+ * Tests for custom types registered by constructor.
+ */
+describe('AutoEnvParse - Custom Types', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+        AutoEnvParse.registerType(Money, { parse: Money.parse, serialize: money => money.format(), describe: 'amount' });
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        AutoEnvParse.unregisterType(Money);
+        vi.restoreAllMocks();
+    });
+
+    it('should parse registered types from a single variable', () => {
+        process.env.TEST_PRICE = '12.50 EUR';
+
+        const config = AutoEnvParse.parse({ price: new Money(999) }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.price).toBeInstanceOf(Money);
+        expect(config.price.format()).toBe('12.50 EUR');
+    });
+
+    it('should not read the properties of registered types', () => {
+        process.env.TEST_PRICE_CENTS = '100';
+
+        const config = AutoEnvParse.parse({ price: new Money(999) }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.price.cents).toBe(999);
+    });
+
+    it('should parse registered types in nested objects, class instances and array elements', () => {
+        class Plan {
+            fee = new Money(0);
+        }
+        process.env.TEST_BILLING_LIMIT = '100';
+        process.env.TEST_PLAN_FEE = '5.00';
+        process.env.TEST_TIERS_0_PRICE = '10';
+        process.env.TEST_TIERS_1_PRICE = '20';
+        process.env.TEST_DISCOUNTS_0 = '1.00';
+
+        const config = AutoEnvParse.parse(
+            {
+                billing: { limit: new Money(0) },
+                plan: new Plan(),
+                tiers: [{ price: new Money(0) }],
+                discounts: [new Money(0)]
+            },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.billing.limit.cents).toBe(10000);
+        expect(config.plan.fee.cents).toBe(500);
+        expect(config.tiers.map(tier => tier.price.cents)).toEqual([1000, 2000]);
+        expect(config.discounts.map(discount => discount.cents)).toEqual([100]);
+    });
+
+    it('should parse registered types in lists and JSON values', () => {
+        process.env.TEST_DISCOUNTS = '1.00, 2.50';
+        process.env.TEST_BILLING = '{"limit": "75.00 GBP"}';
+
+        const config = AutoEnvParse.parse(
+            { discounts: [new Money(0)], billing: { limit: new Money(0) } },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.discounts.map(discount => discount.cents)).toEqual([100, 250]);
+        expect(config.billing.limit.format()).toBe('75.00 GBP');
+    });
+
+    it('should report invalid values with the type name and keep the default', () => {
+        process.env.TEST_PRICE = 'free';
+
+        const result = AutoEnvParse.safeParse({ price: new Money(999) }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.success).toBe(false);
+        expect(result.data.price.cents).toBe(999);
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_PRICE',
+            path: 'price',
+            value: 'free',
+            expected: 'amount',
+            message: 'Invalid amount value for TEST_PRICE: "free"'
+        });
+    });
+
+    it('should use the constructor name when no type name is given', () => {
+        AutoEnvParse.registerType(Percentage, {
+            parse: value => {
+                if (!/^\d+%$/.test(value)) {
+                    throw new Error('not a percentage');
+                }
+                return new Percentage(parseInt(value, 10));
+            }
+        });
+        process.env.TEST_RATE = 'half';
+
+        try {
+            expect(() => AutoEnvParse.parse({ rate: new Percentage(5) }, { prefix: 'TEST', sources: ['env'] }))
+                .toThrow('Invalid Percentage value for TEST_RATE: "half"');
+        } finally {
+            expect(AutoEnvParse.unregisterType(Percentage)).toBe(true);
+        }
+        expect(AutoEnvParse.unregisterType(Percentage)).toBe(false);
+    });
+
+    describe('types option', () => {
+        it('should register types for a single call, taking precedence over global ones', () => {
+            process.env.TEST_PRICE = '7';
+            process.env.TEST_RATE = '15%';
+
+            const config = AutoEnvParse.parse(
+                { price: new Money(0), rate: new Percentage(0) },
+                {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    types: new Map<TypeConstructor, TypeCoercer<unknown>>([
+                        [Money, { parse: (value: string): Money => new Money(Number(value)) }],
+                        [Percentage, { parse: (value: string): Percentage => new Percentage(parseInt(value, 10)) }]
+                    ])
+                }
+            );
+
+            expect(config.price.cents).toBe(7);
+            expect(config.rate.value).toBe(15);
+            expect(AutoEnvParse.parse({ price: new Money(0) }, { prefix: 'TEST', sources: ['env'] }).price.cents).toBe(700);
+        });
+
+        it('should coerce null defaults declared with a constructor', () => {
+            process.env.TEST_LIMIT = '20.00';
+            process.env.TEST_CAP = 'null';
+
+            const config = AutoEnvParse.parse(
+                { limit: null as Money | null, cap: new Money(100) as Money | null },
+                { prefix: 'TEST', sources: ['env'], types: { limit: Money, cap: Money } }
+            );
+
+            expect(config.limit).toBeInstanceOf(Money);
+            expect(config.limit?.cents).toBe(2000);
+            expect(config.cap).toBeNull();
+        });
+
+        it('should combine property types and custom types in a Map', () => {
+            process.env.TEST_RATE = '3%';
+            process.env.TEST_RETRIES = '4';
+
+            const config = AutoEnvParse.parse(
+                { rate: null as Percentage | null, retries: null as number | null },
+                {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    types: new Map<string | TypeConstructor, TypeHint | TypeCoercer<unknown>>([
+                        [Percentage, { parse: (value: string): Percentage => new Percentage(parseInt(value, 10)) }],
+                        ['rate', Percentage],
+                        ['retries', 'number']
+                    ])
+                }
+            );
+
+            expect(config.rate?.value).toBe(3);
+            expect(config.retries).toBe(4);
+        });
+
+        it('should reject constructors that are not registered', () => {
+            process.env.TEST_RATE = '3%';
+
+            expect(() => AutoEnvParse.parse(
+                { rate: null as Percentage | null },
+                { prefix: 'TEST', sources: ['env'], types: { rate: Percentage } }
+            )).toThrow('Type Percentage declared for "rate" is not registered.');
+        });
+    });
+
+    it('should record registered types as leaves and serialize them in provenance', () => {
+        process.env.TEST_PRICE = '3.00';
+
+        const { provenance } = AutoEnvParse.parse({ price: new Money(0) }, { prefix: 'TEST', sources: ['env'], provenance: true });
+
+        expect([...provenance.keys()]).toEqual(['price']);
+        expect(provenance.toTable()).toContain('3.00 USD');
+    });
+});
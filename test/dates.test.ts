@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError } from '../src/errors';
+
+/**
+ * Tests for Date-typed properties.
+ */
+describe('AutoEnvParse - Dates', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('parseDate()', () => {
+        it('should parse ISO-8601 dates and date-times', () => {
+            expect(AutoEnvParse.parseDate('2026-01-01').toISOString()).toBe('2026-01-01T00:00:00.000Z');
+            expect(AutoEnvParse.parseDate('2026-01-01T10:30:00Z').toISOString()).toBe('2026-01-01T10:30:00.000Z');
+            expect(AutoEnvParse.parseDate('2026-01-01T10:30:00.250+02:00').toISOString()).toBe('2026-01-01T08:30:00.250Z');
+        });
+
+        it('should parse epoch seconds and milliseconds', () => {
+            expect(AutoEnvParse.parseDate('1767225600').toISOString()).toBe('2026-01-01T00:00:00.000Z');
+            expect(AutoEnvParse.parseDate('1767225600000').toISOString()).toBe('2026-01-01T00:00:00.000Z');
+            expect(AutoEnvParse.parseDate('0').getTime()).toBe(0);
+        });
+
+        it('should reject invalid dates', () => {
+            for (const value of ['', 'tomorrow', '2026-13-01', '2026-02-30', '2026-01-01T25:00', '01/02/2026']) {
+                expect(() => AutoEnvParse.parseDate(value)).toThrow(CoercionError);
+            }
+        });
+
+        it('should be available through coerceValue()', () => {
+            expect(AutoEnvParse.coerceValue('2026-01-01', 'date')).toEqual(new Date('2026-01-01'));
+        });
+    });
+
+    it('should parse a top-level Date property', () => {
+        process.env.TEST_RELEASE_DATE = '2026-01-01';
+
+        const config = AutoEnvParse.parse({ releaseDate: new Date(0) }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.releaseDate).toBeInstanceOf(Date);
+        expect(config.releaseDate.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    });
+
+    it('should keep the default Date when the variable is not set', () => {
+        const config = AutoEnvParse.parse({ releaseDate: new Date(0) }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.releaseDate).toEqual(new Date(0));
+    });
+
+    it('should report invalid dates and keep the default', () => {
+        process.env.TEST_RELEASE_DATE = 'soon';
+
+        const result = AutoEnvParse.safeParse({ releaseDate: new Date(0) }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.success).toBe(false);
+        expect(result.data.releaseDate).toEqual(new Date(0));
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_RELEASE_DATE',
+            path: 'releaseDate',
+            value: 'soon',
+            expected: 'date',
+            message: 'Invalid date value for TEST_RELEASE_DATE: "soon"'
+        });
+    });
+
+    it('should parse Dates in nested objects without turning defaults into strings', () => {
+        process.env.TEST_SCHEDULE_START = '1767225600';
+
+        const config = AutoEnvParse.parse(
+            { schedule: { start: new Date(0), end: new Date(1000) } },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.schedule.start).toEqual(new Date('2026-01-01T00:00:00Z'));
+        expect(config.schedule.end).toEqual(new Date(1000));
+    });
+
+    it('should parse Dates in nested JSON', () => {
+        process.env.TEST_SCHEDULE = '{"start":"2026-01-01","end":1767225600000}';
+
+        const config = AutoEnvParse.parse(
+            { schedule: { start: new Date(0), end: new Date(0) } },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.schedule.start).toEqual(new Date('2026-01-01T00:00:00Z'));
+        expect(config.schedule.end).toEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    it('should parse Dates in class instances', () => {
+        class Release {
+            date = new Date(0);
+            name = 'v1';
+        }
+        process.env.TEST_RELEASE_DATE = '2026-01-01';
+
+        const config = AutoEnvParse.parse({ release: new Release() }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.release.date).toEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    it('should parse Dates in array elements (dot-notation)', () => {
+        process.env.TEST_WINDOWS_0_START = '2026-01-01';
+        process.env.TEST_WINDOWS_1_NAME = 'second';
+
+        const config = AutoEnvParse.parse(
+            { windows: [{ name: 'first', start: new Date(0) }] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.windows[0].start).toEqual(new Date('2026-01-01T00:00:00Z'));
+        expect(config.windows[1].name).toBe('second');
+        expect(config.windows[1].start).toBeInstanceOf(Date);
+        expect(config.windows[1].start).toEqual(new Date(0));
+    });
+
+    it('should parse Dates in JSON arrays', () => {
+        process.env.TEST_HOLIDAYS = '["2026-01-01", 1767225600]';
+        process.env.TEST_WINDOWS = '[{"start":"2026-01-01"}]';
+
+        const config = AutoEnvParse.parse(
+            { holidays: [new Date(0)], windows: [{ start: new Date(0) }] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.holidays).toEqual([new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z')]);
+        expect(config.windows[0].start).toEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    it('should report invalid Dates in JSON with their element path', () => {
+        process.env.TEST_HOLIDAYS = '["2026-01-01", "never"]';
+
+        const result = AutoEnvParse.safeParse({ holidays: [new Date(0)] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues[0]).toMatchObject({ envVar: 'TEST_HOLIDAYS', path: 'holidays.1', value: 'never', expected: 'date' });
+        expect(result.data.holidays[1]).toEqual(new Date(0));
+    });
+
+    it('should coerce Dates before validation rules', () => {
+        process.env.TEST_EXPIRES = '2020-01-01';
+        const notExpired = (value: unknown): string | undefined =>
+            (value as Date).getTime() > Date.UTC(2025, 0, 1) ? undefined : 'a date after 2025-01-01';
+
+        const result = AutoEnvParse.safeParse(
+            { expires: new Date(Date.UTC(2030, 0, 1)) },
+            {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: { expires: AutoEnvParse.validate('expires', notExpired) }
+            }
+        );
+
+        expect(result.issues[0].message).toBe('Invalid value for TEST_EXPIRES: "2020-01-01". Must be a date after 2025-01-01');
+    });
+
+    it('should not mutate Dates in the default value', () => {
+        const start = new Date(0);
+        const defaults = { start };
+        process.env.TEST_START = '2026-01-01';
+
+        const config = AutoEnvParse.loadNestedFromEnv('TEST', defaults);
+
+        expect(config.start).toEqual(new Date('2026-01-01T00:00:00Z'));
+        expect(defaults.start).toBe(start);
+        expect(start.getTime()).toBe(0);
+    });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError, EnvValidationError } from '../src/errors';
+
+/**
+ * Tests for human-readable duration values.
+ */
+describe('AutoEnvParse - Durations', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('parseDuration()', () => {
+        it('should parse single units to milliseconds by default', () => {
+            expect(AutoEnvParse.parseDuration('250ms')).toBe(250);
+            expect(AutoEnvParse.parseDuration('30s')).toBe(30000);
+            expect(AutoEnvParse.parseDuration('5m')).toBe(300000);
+            expect(AutoEnvParse.parseDuration('2h')).toBe(7200000);
+            expect(AutoEnvParse.parseDuration('1d')).toBe(86400000);
+        });
+
+        it('should parse compound and fractional durations', () => {
+            expect(AutoEnvParse.parseDuration('1h30m')).toBe(5400000);
+            expect(AutoEnvParse.parseDuration('1d 12h')).toBe(129600000);
+            expect(AutoEnvParse.parseDuration('1.5s')).toBe(1500);
+            expect(AutoEnvParse.parseDuration('2M30S')).toBe(150000);
+        });
+
+        it('should convert to the requested unit', () => {
+            expect(AutoEnvParse.parseDuration('1h30m', 'm')).toBe(90);
+            expect(AutoEnvParse.parseDuration('500ms', 's')).toBe(0.5);
+            expect(AutoEnvParse.parseDuration('36h', 'd')).toBe(1.5);
+        });
+
+        it('should read bare numbers in the requested unit', () => {
+            expect(AutoEnvParse.parseDuration('5000')).toBe(5000);
+            expect(AutoEnvParse.parseDuration('30', 's')).toBe(30);
+        });
+
+        it('should reject invalid durations', () => {
+            for (const value of ['', 'fast', '10x', '-5s', '1h30', 's', '1..5s']) {
+                expect(() => AutoEnvParse.parseDuration(value)).toThrow(CoercionError);
+            }
+        });
+    });
+
+    describe('durations option', () => {
+        it('should parse declared properties in the declared unit', () => {
+            process.env.TEST_TIMEOUT = '30s';
+            process.env.TEST_TTL = '1h30m';
+
+            const config = AutoEnvParse.parse(
+                { timeout: 5000, ttl: 60, retries: 3 },
+                { prefix: 'TEST', sources: ['env'], durations: { timeout: 'ms', ttl: 's' } }
+            );
+
+            expect(config).toEqual({ timeout: 30000, ttl: 5400, retries: 3 });
+        });
+
+        it('should accept bare numbers for backward compatibility', () => {
+            process.env.TEST_TIMEOUT = '2500';
+
+            const config = AutoEnvParse.parse({ timeout: 5000 }, { prefix: 'TEST', sources: ['env'], durations: { timeout: 'ms' } });
+
+            expect(config.timeout).toBe(2500);
+        });
+
+        it('should parse durations in nested objects and array elements', () => {
+            process.env.TEST_CACHE_TTL = '10m';
+            process.env.TEST_SERVERS_0_KEEP_ALIVE = '15s';
+            process.env.TEST_SERVERS_1_KEEP_ALIVE = '1m';
+
+            const config = AutoEnvParse.parse(
+                { cache: { ttl: 60 }, servers: [{ host: 'a', keepAlive: 5000 }] },
+                { prefix: 'TEST', sources: ['env'], durations: { 'cache.ttl': 's', 'servers.*.keepAlive': 'ms' } }
+            );
+
+            expect(config.cache.ttl).toBe(600);
+            expect(config.servers.map(s => s.keepAlive)).toEqual([15000, 60000]);
+        });
+
+        it('should apply a declaration on an array of numbers to its elements', () => {
+            process.env.TEST_TIMEOUTS = '5m,30s';
+            process.env.TEST_DELAYS = '["1s", 250]';
+            process.env.TEST_BACKOFF_0 = '2s';
+
+            const config = AutoEnvParse.parse(
+                { timeouts: [60], delays: [0], backoff: [100] },
+                { prefix: 'TEST', sources: ['env'], durations: { timeouts: 's', delays: 'ms', backoff: 'ms' } }
+            );
+
+            expect(config.timeouts).toEqual([300, 30]);
+            expect(config.delays).toEqual([1000, 250]);
+            expect(config.backoff).toEqual([2000]);
+        });
+
+        it('should parse duration strings inside JSON values', () => {
+            process.env.TEST_CACHE = '{"ttl":"2h"}';
+            process.env.TEST_SERVERS = '[{"keepAlive":"30s"},{"keepAlive":1000}]';
+
+            const config = AutoEnvParse.parse(
+                { cache: { ttl: 60 }, servers: [{ keepAlive: 5000 }] },
+                { prefix: 'TEST', sources: ['env'], durations: { 'cache.ttl': 'm', 'servers.*.keepAlive': 'ms' } }
+            );
+
+            expect(config.cache.ttl).toBe(120);
+            expect(config.servers.map(s => s.keepAlive)).toEqual([30000, 1000]);
+        });
+
+        it('should report invalid durations and keep the default', () => {
+            process.env.TEST_TIMEOUT = 'forever';
+
+            const result = AutoEnvParse.safeParse({ timeout: 5000 }, { prefix: 'TEST', sources: ['env'], durations: { timeout: 'ms' } });
+
+            expect(result.success).toBe(false);
+            expect(result.data.timeout).toBe(5000);
+            expect(result.issues[0]).toMatchObject({
+                envVar: 'TEST_TIMEOUT',
+                path: 'timeout',
+                value: 'forever',
+                expected: 'duration',
+                message: 'Invalid duration value for TEST_TIMEOUT: "forever"'
+            });
+        });
+    });
+
+    describe('duration() override', () => {
+        it('should parse the property with the given unit', () => {
+            process.env.TEST_TIMEOUT = '1m';
+            process.env.TEST_TTL = '2h';
+
+            const config = AutoEnvParse.parse(
+                { timeout: 5000, ttl: 60 },
+                {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    overrides: {
+                        timeout: AutoEnvParse.duration('timeout'),
+                        ttl: AutoEnvParse.duration('ttl', 's')
+                    }
+                }
+            );
+
+            expect(config).toEqual({ timeout: 60000, ttl: 7200 });
+        });
+
+        it('should keep the default when the variable is not set', () => {
+            const config = AutoEnvParse.parse(
+                { timeout: 5000 },
+                { prefix: 'TEST', sources: ['env'], overrides: { timeout: AutoEnvParse.duration('timeout') } }
+            );
+
+            expect(config.timeout).toBe(5000);
+        });
+
+        it('should check validation rules against the parsed value', () => {
+            process.env.TEST_TTL = '2d';
+
+            expect(() => AutoEnvParse.parse(
+                { ttl: 60 },
+                {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    overrides: { ttl: AutoEnvParse.duration('ttl', 's', AutoEnvParse.validators.range(1, 86400)) }
+                }
+            )).toThrow('Invalid value for TEST_TTL: "2d". Must be between 1 and 86400');
+        });
+
+        it('should report invalid durations like the durations option', () => {
+            process.env.TEST_TIMEOUT = 'soon';
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            const option = AutoEnvParse.safeParse({ timeout: 5000 }, { prefix: 'TEST', sources: ['env'], durations: { timeout: 'ms' } });
+            const helper = AutoEnvParse.safeParse(
+                { timeout: 5000 },
+                { prefix: 'TEST', sources: ['env'], overrides: { timeout: AutoEnvParse.duration('timeout') } }
+            );
+
+            expect(helper.data).toEqual(option.data);
+            expect(helper.issues).toEqual(option.issues);
+            expect(() => AutoEnvParse.parse(
+                { timeout: 5000 },
+                { prefix: 'TEST', sources: ['env'], overrides: { timeout: AutoEnvParse.duration('timeout') } }
+            )).not.toThrow();
+        });
+
+        it('should treat empty values as unset', () => {
+            process.env.TEST_TIMEOUT = '';
+
+            const result = AutoEnvParse.safeParse(
+                { timeout: 5000 },
+                { prefix: 'TEST', sources: ['env'], overrides: { timeout: AutoEnvParse.duration('timeout') } }
+            );
+
+            expect(result.data.timeout).toBe(5000);
+            expect(result.issues).toEqual([]);
+        });
+
+        it('should throw for invalid durations in strict mode', () => {
+            process.env.TEST_TIMEOUT = 'soon';
+
+            expect(() => AutoEnvParse.parse(
+                { timeout: 5000 },
+                { prefix: 'TEST', sources: ['env'], strict: true, overrides: { timeout: AutoEnvParse.duration('timeout') } }
+            )).toThrow(EnvValidationError);
+        });
+
+        it('should warn when called without a context', () => {
+            process.env.TEST_TIMEOUT = 'soon';
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const config = { timeout: 5000 };
+
+            AutoEnvParse.duration<typeof config>('timeout')(config, 'TEST_TIMEOUT');
+
+            expect(config.timeout).toBe(5000);
+            expect(warnSpy).toHaveBeenCalledWith('Warning: Invalid duration value for TEST_TIMEOUT: "soon"');
+        });
+    });
+});
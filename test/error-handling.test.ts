@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AutoEnvParse, OverrideContext } from '../src/autoEnvParse';
+import { EnvValidationError } from '../src/errors';
+
+/**
+ * Tests for the unified error model (errorMode option, safeParse, EnvValidationError).
+ */
+describe('AutoEnvParse - Error Handling', () => {
+    const originalEnv = { ...process.env };
+    const testEnvFile = path.join(process.cwd(), '.env.errors-test');
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(testEnvFile)) {
+            fs.unlinkSync(testEnvFile);
+        }
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('errorMode: collect', () => {
+        it('should report every invalid variable in one error', () => {
+            const config = { port: 3000, timeout: 5000, servers: ['a'] };
+
+            process.env.TEST_PORT = 'abc';
+            process.env.TEST_TIMEOUT = 'slow';
+            process.env.TEST_SERVERS = '[not-json';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], errorMode: 'collect' });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(EnvValidationError);
+            const issues = (error as EnvValidationError).issues;
+            expect(issues.map(i => i.envVar)).toEqual(['TEST_PORT', 'TEST_TIMEOUT', 'TEST_SERVERS']);
+            expect((error as EnvValidationError).message).toMatch(/3 environment variable issues found/);
+            expect(config.port).toBe(3000);
+            expect(config.timeout).toBe(5000);
+        });
+
+        it('should include enumValidator failures in the aggregated error', () => {
+            const config = { env: 'dev', port: 3000 };
+            const overrides = new Map([
+                ['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])]
+            ]);
+
+            process.env.TEST_ENV = 'qa';
+            process.env.TEST_PORT = 'x';
+
+            expect(() => {
+                AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], overrides, errorMode: 'collect' });
+            }).toThrow(/2 environment variable issues found/);
+        });
+    });
+
+    describe('errorMode: throw', () => {
+        it('should throw on the first invalid variable', () => {
+            const config = { port: 3000, timeout: 5000 };
+
+            process.env.TEST_PORT = 'abc';
+            process.env.TEST_TIMEOUT = 'slow';
+
+            expect(() => {
+                AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], errorMode: 'throw' });
+            }).toThrow('Invalid number value for TEST_PORT: "abc"');
+            expect(config.timeout).toBe(5000);
+        });
+    });
+
+    describe('errorMode: warn', () => {
+        it('should log warnings and keep defaults', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const config = { port: 3000, env: 'dev' };
+            const overrides = new Map([
+                ['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])]
+            ]);
+
+            process.env.TEST_PORT = 'abc';
+            process.env.TEST_ENV = 'qa';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], overrides, errorMode: 'warn' });
+
+            expect(config.port).toBe(3000);
+            expect(config.env).toBe('dev');
+            expect(warnSpy).toHaveBeenCalledWith('Warning: Invalid number value for TEST_PORT: "abc"');
+            expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid value for TEST_ENV: "qa"'));
+        });
+    });
+
+    describe('default error mode', () => {
+        it('should warn on invalid numbers and keep the default', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const config = { port: 3000 };
+
+            process.env.TEST_PORT = 'abc';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config.port).toBe(3000);
+            expect(warnSpy).toHaveBeenCalledWith('Warning: Invalid number value for TEST_PORT: "abc"');
+        });
+
+        it('should throw all enumValidator failures together after parsing', () => {
+            const config = { env: 'dev', region: 'us', port: 3000 };
+            const overrides = new Map([
+                ['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])],
+                ['region', AutoEnvParse.enumValidator('region', ['us', 'eu'])]
+            ]);
+
+            process.env.TEST_ENV = 'qa';
+            process.env.TEST_REGION = 'apac';
+            process.env.TEST_PORT = '8080';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], overrides });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(EnvValidationError);
+            expect((error as EnvValidationError).issues.map(i => i.envVar)).toEqual(['TEST_ENV', 'TEST_REGION']);
+            // Parsing continued past the first failure
+            expect(config.port).toBe(8080);
+        });
+    });
+
+    describe('safeParse()', () => {
+        it('should return success with data when everything is valid', () => {
+            process.env.TEST_PORT = '8080';
+
+            const result = AutoEnvParse.safeParse({ port: 3000 }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(result.success).toBe(true);
+            expect(result.data.port).toBe(8080);
+            expect(result.issues).toEqual([]);
+        });
+
+        it('should return issues instead of throwing', () => {
+            process.env.TEST_PORT = 'abc';
+
+            const result = AutoEnvParse.safeParse({ port: 3000 }, { prefix: 'TEST', sources: ['env'], errorMode: 'throw' });
+
+            expect(result.success).toBe(false);
+            expect(result.data.port).toBe(3000);
+            expect(result.issues).toEqual([{
+                envVar: 'TEST_PORT',
+                path: 'port',
+                value: 'abc',
+                expected: 'number',
+                source: 'env',
+                message: 'Invalid number value for TEST_PORT: "abc"'
+            }]);
+        });
+
+        it('should work with class constructors', () => {
+            class Config {
+                port = 3000;
+            }
+
+            process.env.TEST_PORT = 'abc';
+
+            const result = AutoEnvParse.safeParse(Config, { prefix: 'TEST', sources: ['env'] });
+
+            expect(result.success).toBe(false);
+            expect(result.data).toBeInstanceOf(Config);
+        });
+
+        it('should record the file a value was loaded from', () => {
+            fs.writeFileSync(testEnvFile, 'TEST_PORT=abc\n');
+
+            const result = AutoEnvParse.safeParse({ port: 3000 }, { prefix: 'TEST', sources: ['env', testEnvFile] });
+
+            expect(result.issues[0].source).toBe(testEnvFile);
+        });
+
+        it('should report property paths for nested objects and array elements', () => {
+            const config = {
+                database: { pool: { max: 10 } },
+                servers: [{ port: 80 }]
+            };
+
+            process.env.TEST_DATABASE_POOL_MAX = 'many';
+            process.env.TEST_SERVERS_1_PORT = 'http';
+
+            const result = AutoEnvParse.safeParse(config, { prefix: 'TEST', sources: ['env'] });
+
+            expect(result.issues.map(i => [i.path, i.envVar])).toEqual([
+                ['database.pool.max', 'TEST_DATABASE_POOL_MAX'],
+                ['servers.0.port', 'TEST_SERVERS_1_PORT']
+            ]);
+        });
+
+        it('should collect transform failures', () => {
+            const overrides = new Map([
+                ['data', AutoEnvParse.transform('data', () => {
+                    throw new Error('boom');
+                })]
+            ]);
+
+            process.env.TEST_DATA = 'x';
+
+            const result = AutoEnvParse.safeParse({ data: '' }, { prefix: 'TEST', sources: ['env'], overrides });
+
+            expect(result.issues[0].message).toBe('Transform failed for TEST_DATA: boom');
+        });
+
+        it('should report non-object JSON for nested objects', () => {
+            process.env.TEST_DB = '42';
+
+            const result = AutoEnvParse.safeParse({ db: { host: 'localhost' } }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(result.issues[0]).toMatchObject({ path: 'db', expected: 'JSON object' });
+        });
+    });
+
+    describe('Override context', () => {
+        it('should pass merged env and a reporter to custom overrides', () => {
+            fs.writeFileSync(testEnvFile, 'TEST_PORT=99999\n');
+
+            const overrides = new Map([
+                ['port', (obj: { port: number }, envVar: string, context?: OverrideContext): void => {
+                    const value = Number(context!.env[envVar]);
+                    if (value > 65535) {
+                        context!.report({ value: String(value), expected: 'port', message: `${envVar} out of range` });
+                    } else {
+                        obj.port = value;
+                    }
+                }]
+            ]);
+
+            const result = AutoEnvParse.safeParse({ port: 3000 }, { prefix: 'TEST', sources: ['env', testEnvFile], overrides });
+
+            expect(result.issues).toEqual([expect.objectContaining({ path: 'port', message: 'TEST_PORT out of range', source: testEnvFile })]);
+        });
+    });
+
+    describe('EnvValidationError', () => {
+        it('should use the single issue message directly', () => {
+            const error = new EnvValidationError([{
+                envVar: 'A', path: 'a', value: 'x', expected: 'number', source: 'env', message: 'bad A'
+            }]);
+
+            expect(error.message).toBe('bad A');
+            expect(error.name).toBe('EnvValidationError');
+            expect(error).toBeInstanceOf(Error);
+        });
+    });
+});
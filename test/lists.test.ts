@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+
+/**
+ * Tests for delimiter-separated list values.
+ */
+describe('AutoEnvParse - Lists', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    it('should split comma-separated values and trim entries', () => {
+        process.env.TEST_ALLOWED_HOSTS = 'a.com,b.com, c.com';
+
+        const config = AutoEnvParse.parse({ allowedHosts: ['localhost'] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.allowedHosts).toEqual(['a.com', 'b.com', 'c.com']);
+    });
+
+    it('should coerce entries to the template element type', () => {
+        process.env.TEST_PORTS = '80,443';
+        process.env.TEST_FLAGS = 'yes, off';
+        process.env.TEST_IDS = '9007199254740993';
+        process.env.TEST_HOLIDAYS = '2026-12-25,2026-12-26';
+
+        const config = AutoEnvParse.parse(
+            { ports: [3000], flags: [false], ids: [0n], holidays: [new Date(0)] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.ports).toEqual([80, 443]);
+        expect(config.flags).toEqual([true, false]);
+        expect(config.ids).toEqual([9007199254740993n]);
+        expect(config.holidays.map(d => d.toISOString().slice(0, 10))).toEqual(['2026-12-25', '2026-12-26']);
+    });
+
+    it('should keep separators and whitespace inside quoted entries', () => {
+        process.env.TEST_LABELS = `"a, b", ' padded ' ,c`;
+
+        const config = AutoEnvParse.parse({ labels: [''] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.labels).toEqual(['a, b', ' padded ', 'c']);
+    });
+
+    it('should still parse JSON arrays', () => {
+        process.env.TEST_PORTS = '[80, 443]';
+
+        const config = AutoEnvParse.parse({ ports: [3000] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.ports).toEqual([80, 443]);
+    });
+
+    it('should prefer indexed variables over lists', () => {
+        process.env.TEST_PORTS = '80,443';
+        process.env.TEST_PORTS_0 = '8080';
+
+        const config = AutoEnvParse.parse({ ports: [3000] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.ports).toEqual([8080]);
+    });
+
+    describe('empty entries', () => {
+        it('should skip empty entries by default', () => {
+            process.env.TEST_HOSTS = 'a.com,, b.com,';
+
+            const config = AutoEnvParse.parse({ hosts: [''] }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config.hosts).toEqual(['a.com', 'b.com']);
+        });
+
+        it('should keep empty entries when configured, and quoted ones always', () => {
+            process.env.TEST_HOSTS = 'a.com,,b.com';
+            process.env.TEST_SUFFIXES = '"",x';
+
+            const config = AutoEnvParse.parse(
+                { hosts: [''], suffixes: [''] },
+                { prefix: 'TEST', sources: ['env'], lists: { properties: { hosts: { empty: 'keep' } } } }
+            );
+
+            expect(config.hosts).toEqual(['a.com', '', 'b.com']);
+            expect(config.suffixes).toEqual(['', 'x']);
+        });
+
+        it('should reject empty entries when configured', () => {
+            process.env.TEST_HOSTS = 'a.com,,b.com';
+
+            const result = AutoEnvParse.safeParse(
+                { hosts: ['localhost'] },
+                { prefix: 'TEST', sources: ['env'], errorMode: 'collect', lists: { empty: 'error' } }
+            );
+
+            expect(result.data.hosts).toEqual(['localhost']);
+            expect(result.issues[0].message).toBe('Invalid TEST_HOSTS format. Expected JSON array or comma-separated list.');
+        });
+    });
+
+    describe('separators', () => {
+        it('should use a global separator', () => {
+            process.env.TEST_HOSTS = 'a.com; b.com';
+
+            const config = AutoEnvParse.parse({ hosts: [''] }, { prefix: 'TEST', sources: ['env'], lists: { separator: ';' } });
+
+            expect(config.hosts).toEqual(['a.com', 'b.com']);
+        });
+
+        it('should use per-property separators over the global one', () => {
+            process.env.TEST_HOSTS = 'a.com;b.com';
+            process.env.TEST_PATHS = '/usr/bin:/bin';
+            process.env.TEST_WORDS = 'one two  three';
+
+            const config = AutoEnvParse.parse(
+                { hosts: [''], paths: [''], words: [''] },
+                {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    lists: { separator: ';', properties: { paths: { separator: ':' }, words: { separator: ' ' } } }
+                }
+            );
+
+            expect(config.hosts).toEqual(['a.com', 'b.com']);
+            expect(config.paths).toEqual(['/usr/bin', '/bin']);
+            expect(config.words).toEqual(['one', 'two', 'three']);
+        });
+
+        it('should keep whitespace when trimming is disabled', () => {
+            process.env.TEST_HOSTS = ' a , b ';
+
+            const config = AutoEnvParse.parse({ hosts: [''] }, { prefix: 'TEST', sources: ['env'], lists: { trim: false } });
+
+            expect(config.hosts).toEqual([' a ', ' b ']);
+        });
+
+        it('should apply to Sets', () => {
+            process.env.TEST_ROLES = 'read|write';
+
+            const config = AutoEnvParse.parse(
+                { roles: new Set(['read']) },
+                { prefix: 'TEST', sources: ['env'], lists: { properties: { roles: { separator: '|' } } } }
+            );
+
+            expect([...config.roles]).toEqual(['read', 'write']);
+        });
+
+        it('should reject an empty separator', () => {
+            process.env.TEST_HOSTS = 'a.com';
+
+            expect(() => AutoEnvParse.parse({ hosts: [''] }, { prefix: 'TEST', sources: ['env'], lists: { separator: '' } }))
+                .toThrow('Invalid list separator for "hosts". The separator must not be empty.');
+        });
+    });
+
+    it('should report invalid entries and keep the template value', () => {
+        process.env.TEST_PORTS = '80,http';
+
+        const result = AutoEnvParse.safeParse({ ports: [3000] }, { prefix: 'TEST', sources: ['env'], strict: true });
+
+        expect(result.data.ports).toEqual([80, 3000]);
+        expect(result.issues[0]).toMatchObject({ envVar: 'TEST_PORTS', path: 'ports.1', value: 'http', expected: 'number' });
+    });
+
+    it('should report unterminated quotes', () => {
+        process.env.TEST_LABELS = '"a, b';
+
+        const result = AutoEnvParse.safeParse(
+            { labels: ['x'] },
+            { prefix: 'TEST', sources: ['env'], errorMode: 'collect', lists: { separator: ';' } }
+        );
+
+        expect(result.data.labels).toEqual(['x']);
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_LABELS',
+            expected: 'JSON array or ";"-separated list',
+            message: 'Invalid TEST_LABELS format. Expected JSON array or ";"-separated list.'
+        });
+    });
+
+    it('should record the source of top-level and nested lists', () => {
+        process.env.TEST_TAGS = 'a,b';
+        process.env.TEST_NODE_TAGS = 'c,d';
+
+        const { data, provenance } = AutoEnvParse.parse(
+            { tags: [''], node: { tags: [''] } },
+            { prefix: 'TEST', sources: ['env'], provenance: true }
+        );
+
+        expect(data).toEqual({ tags: ['a', 'b'], node: { tags: ['c', 'd'] } });
+        expect(provenance.get('tags')).toMatchObject({ envVar: 'TEST_TAGS', source: 'env' });
+        expect(provenance.get('node.tags')).toMatchObject({ envVar: 'TEST_NODE_TAGS', source: 'dot-notation' });
+    });
+
+    it('should report text after a closing quote', () => {
+        process.env.TEST_LABELS = '"a" b, c';
+
+        const result = AutoEnvParse.safeParse({ labels: ['x'] }, { prefix: 'TEST', sources: ['env'], errorMode: 'collect' });
+
+        expect(result.data.labels).toEqual(['x']);
+        expect(result.issues[0].message).toBe('Invalid TEST_LABELS format. Expected JSON array or comma-separated list.');
+    });
+
+    it('should keep JSON-only handling for arrays of objects', () => {
+        process.env.TEST_SERVERS = 'a.com,b.com';
+
+        const result = AutoEnvParse.safeParse({ servers: [{ host: '' }] }, { prefix: 'TEST', sources: ['env'], errorMode: 'collect' });
+
+        expect(result.issues[0].message).toBe('Invalid TEST_SERVERS format. Expected JSON array.');
+    });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse, Logger } from '../src/autoEnvParse';
+
+/**
+ * Tests for the logger, silent and debug options.
+ */
+describe('AutoEnvParse - Logging', () => {
+    const originalEnv = { ...process.env };
+
+    const createLogger = (): Logger & { messages: Record<string, string[]> } => {
+        const messages: Record<string, string[]> = { debug: [], info: [], warn: [], error: [] };
+        return {
+            messages,
+            debug: (message: string): void => { messages.debug.push(message); },
+            info: (message: string): void => { messages.info.push(message); },
+            warn: (message: string): void => { messages.warn.push(message); },
+            error: (message: string): void => { messages.error.push(message); }
+        };
+    };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('logger option', () => {
+        it('should route warnings to the custom logger instead of console', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const logger = createLogger();
+
+            process.env.TEST_PORT = 'abc';
+
+            AutoEnvParse.parse({ port: 3000 }, {
+                prefix: 'TEST',
+                sources: ['env', '/non/existent/.env'],
+                logger
+            });
+
+            expect(warnSpy).not.toHaveBeenCalled();
+            expect(logger.messages.warn).toEqual([
+                'Environment file not found: /non/existent/.env',
+                'Invalid number value for TEST_PORT: "abc"'
+            ]);
+        });
+
+        it('should trace every lookup at debug level', () => {
+            const logger = createLogger();
+
+            process.env.TEST_HOST = 'example.com';
+            process.env.TEST_SERVERS_0_PORT = '80';
+
+            AutoEnvParse.parse({
+                host: 'localhost',
+                port: 3000,
+                db: { name: 'app' },
+                servers: [{ port: 8080 }]
+            }, { prefix: 'TEST', sources: ['env'], logger });
+
+            expect(logger.messages.debug).toEqual(expect.arrayContaining([
+                expect.stringMatching(/^Loaded \d+ variables from process\.env$/),
+                'TEST_HOST found for "host"',
+                'TEST_HOST coerced to string for "host"',
+                'TEST_PORT not set, keeping default for "port"',
+                'TEST_DB_NAME not set, keeping default for "db.name"',
+                'TEST_SERVERS found array indices 0 for "servers"',
+                'TEST_SERVERS_0_PORT coerced to number for "servers.0.port"'
+            ]));
+        });
+
+        it('should trace JSON parsing and overrides', () => {
+            const logger = createLogger();
+
+            process.env.TEST_TAGS = '["a","b"]';
+            process.env.TEST_DB = '{"name":"x"}';
+            process.env.TEST_ENV = 'prod';
+            process.env.TEST_NAME = 'svc';
+
+            AutoEnvParse.parse({ tags: ['x'], db: { name: 'app' }, env: 'dev', name: '' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                logger,
+                overrides: new Map([
+                    ['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])],
+                    ['name', AutoEnvParse.transform('name', (v) => v.toUpperCase())]
+                ])
+            });
+
+            expect(logger.messages.debug).toEqual(expect.arrayContaining([
+                'TEST_TAGS parsed as JSON array for "tags"',
+                'TEST_DB parsed as JSON object for "db"',
+                'TEST_ENV handled by override for "env"',
+                'TEST_ENV matched enum value "prod"',
+                'TEST_NAME transformed for "name"'
+            ]));
+        });
+
+        it('should log loaded env files at info level', () => {
+            const logger = createLogger();
+
+            AutoEnvParse.parse({ host: 'localhost' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                envFileParser: () => ({}),
+                logger
+            });
+            AutoEnvParse.parse({ host: 'localhost' }, {
+                prefix: 'TEST',
+                sources: ['package.json'],
+                envFileParser: () => ({ TEST_HOST: 'x' }),
+                logger
+            });
+
+            expect(logger.messages.info).toEqual(['Loaded 1 variables from package.json']);
+        });
+
+        it('should pass the logger to override functions', () => {
+            const logger = createLogger();
+
+            AutoEnvParse.parse({ port: 3000 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                logger,
+                overrides: new Map([
+                    ['port', (_obj: { port: number }, envVar: string, context?: { logger: Logger }): void => {
+                        context?.logger.info(`custom ${envVar}`);
+                    }]
+                ])
+            });
+
+            expect(logger.messages.info).toEqual(['custom TEST_PORT']);
+        });
+    });
+
+    describe('silent option', () => {
+        it('should suppress all output', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const logger = createLogger();
+
+            process.env.TEST_PORT = 'abc';
+
+            AutoEnvParse.parse({ port: 3000 }, {
+                prefix: 'TEST',
+                sources: ['env', '/non/existent/.env'],
+                logger,
+                silent: true
+            });
+
+            expect(warnSpy).not.toHaveBeenCalled();
+            expect(logger.messages.warn).toEqual([]);
+        });
+
+        it('should still report validation errors', () => {
+            process.env.TEST_PORT = 'abc';
+
+            expect(() => {
+                AutoEnvParse.parse({ port: 3000 }, { prefix: 'TEST', sources: ['env'], silent: true, errorMode: 'collect' });
+            }).toThrow('Invalid number value for TEST_PORT: "abc"');
+        });
+    });
+
+    describe('debug option', () => {
+        it('should print debug tracing to the console', () => {
+            const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+            AutoEnvParse.parse({ port: 3000 }, { prefix: 'TEST', sources: ['env'], debug: true });
+
+            expect(debugSpy).toHaveBeenCalledWith('TEST_PORT not set, keeping default for "port"');
+        });
+
+        it('should not print debug tracing by default', () => {
+            const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+            AutoEnvParse.parse({ port: 3000 }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(debugSpy).not.toHaveBeenCalled();
+        });
+    });
+});
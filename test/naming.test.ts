@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { AutoEnvParse, NamingStrategy } from '../src/autoEnvParse';
+
+/**
+ * Tests for naming strategies of environment variable names.
+ */
+describe('AutoEnvParse - Naming', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_') || key.startsWith('TEST.') || key.startsWith('test-')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    it('should keep snake names by default', () => {
+        process.env.TEST_DB_POOL_SIZE = '20';
+
+        const config = AutoEnvParse.parse({ db: { poolSize: 10 } }, { prefix: 'TEST', sources: ['env'], naming: 'snake' });
+
+        expect(config.db.poolSize).toBe(20);
+    });
+
+    describe('double-underscore', () => {
+        it('should separate nesting levels with __', () => {
+            process.env.TEST__DB__POOL_SIZE = '20';
+            process.env.TEST__DB_POOL__SIZE = '5';
+
+            const config = AutoEnvParse.parse(
+                { db: { poolSize: 10 }, dbPool: { size: 1 } },
+                { prefix: 'TEST', sources: ['env'], naming: 'double-underscore' }
+            );
+
+            expect(config.db.poolSize).toBe(20);
+            expect(config.dbPool.size).toBe(5);
+        });
+
+        it('should ignore single-underscore names', () => {
+            process.env.TEST_DB_POOL_SIZE = '20';
+
+            const config = AutoEnvParse.parse({ db: { poolSize: 10 } }, { prefix: 'TEST', sources: ['env'], naming: 'double-underscore' });
+
+            expect(config.db.poolSize).toBe(10);
+        });
+
+        it('should apply to array elements, URL components and records', () => {
+            process.env.TEST__SERVERS__0__HOST = 'a.com';
+            process.env.TEST__SERVERS__1__HOST = 'b.com';
+            process.env.TEST__PORTS__0 = '80';
+            process.env.TEST__API__PORT = '8443';
+            process.env.TEST__DATABASES__READ_REPLICA__HOST = 'replica';
+
+            const config = AutoEnvParse.parse(
+                {
+                    servers: [{ host: 'localhost' }],
+                    ports: [3000],
+                    api: new URL('https://api.example.com'),
+                    databases: {} as Record<string, { host: string }>
+                },
+                { prefix: 'TEST', sources: ['env'], naming: 'double-underscore', records: { databases: { host: 'localhost' } } }
+            );
+
+            expect(config.servers).toEqual([{ host: 'a.com' }, { host: 'b.com' }]);
+            expect(config.ports).toEqual([80]);
+            expect(config.api.port).toBe('8443');
+            expect(config.databases).toEqual({ readReplica: { host: 'replica' } });
+        });
+
+        it('should use the strategy for required and unknown variables', () => {
+            process.env.TEST__DB__HOTS = 'typo';
+
+            const result = AutoEnvParse.safeParse(
+                { db: { host: '' } },
+                { prefix: 'TEST', sources: ['env'], naming: 'double-underscore', required: ['db.host'], unknownVariables: 'error' }
+            );
+
+            expect(result.issues.map(issue => issue.message)).toEqual([
+                'Missing required environment variable TEST__DB__HOST',
+                'Unknown environment variable TEST__DB__HOTS (did you mean TEST__DB__HOST?)'
+            ]);
+        });
+    });
+
+    it('should join segments with dots', () => {
+        process.env['TEST.DB.POOL_SIZE'] = '20';
+        process.env['TEST.SERVERS.0.HOST'] = 'a.com';
+
+        const config = AutoEnvParse.parse(
+            { db: { poolSize: 10 }, servers: [{ host: '' }] },
+            { prefix: 'TEST', sources: ['env'], naming: 'dot' }
+        );
+
+        expect(config.db.poolSize).toBe(20);
+        expect(config.servers).toEqual([{ host: 'a.com' }]);
+    });
+
+    it('should accept a custom function', () => {
+        const naming: NamingStrategy = path => path.map(segment => AutoEnvParse.toSnakeCase(segment)).join('-');
+        process.env['test-db-pool_size'] = '20';
+        process.env['test-servers-1-host'] = 'b.com';
+        process.env['test-tenants-globex-corp-limit'] = '7';
+
+        const result = AutoEnvParse.parse(
+            { db: { poolSize: 10 }, servers: [{ host: '' }], tenants: {} as Record<string, { limit: number }> },
+            { prefix: 'TEST', sources: ['env'], naming, records: { tenants: { limit: 0 } }, provenance: true }
+        );
+
+        expect(result.data.db.poolSize).toBe(20);
+        expect(result.data.servers).toEqual([{ host: 'b.com' }]);
+        expect(result.data.tenants).toEqual({ globexCorp: { limit: 7 } });
+        expect(result.provenance.get('db.poolSize')?.envVar).toBe('test-db-pool_size');
+    });
+
+    describe('placeholder segments', () => {
+        it('should discover indices and keys with functions that keep unknown characters', () => {
+            const naming: NamingStrategy = path => path.map(segment => segment.replace(/[-\s]/g, '').toUpperCase()).join('_');
+            process.env.TEST_SERVERS_1_HOST = 'b.com';
+            process.env.TEST_TENANTS_ACME_LIMIT = '7';
+
+            const config = AutoEnvParse.parse(
+                { servers: [{ host: '' }], tenants: {} as Record<string, { limit: number }> },
+                { prefix: 'TEST', sources: ['env'], naming, records: { tenants: { limit: 0 } } }
+            );
+
+            expect(config.servers).toEqual([{ host: 'b.com' }]);
+            expect(config.tenants).toEqual({ acme: { limit: 7 } });
+        });
+
+        it('should throw when a function drops them', () => {
+            const naming: NamingStrategy = path => path.map(segment => segment.replace(/[^A-Za-z0-9]/g, '').toUpperCase()).join('_');
+            process.env.TEST_SERVERS_0_HOST = 'a.com';
+
+            expect(() => AutoEnvParse.parse({ servers: [{ host: '' }] }, { prefix: 'TEST', sources: ['env'], naming }))
+                .toThrow('Invalid naming strategy: the naming function dropped a placeholder segment.');
+        });
+    });
+
+    it('should reject unknown presets', () => {
+        expect(() => AutoEnvParse.parse({ port: 3000 }, { sources: ['env'], naming: 'kebab' as NamingStrategy }))
+            .toThrow('Invalid naming strategy "kebab".');
+    });
+
+    it('should apply to parseSchema()', () => {
+        process.env.TEST__DB__POOL_SIZE = '20';
+        process.env.TEST__HOSTS__0 = 'a.com';
+
+        const config = AutoEnvParse.parseSchema(
+            z.object({ db: z.object({ poolSize: z.coerce.number() }), hosts: z.array(z.string()) }),
+            { prefix: 'TEST', sources: ['env'], naming: 'double-underscore' }
+        );
+
+        expect(config).toEqual({ db: { poolSize: 20 }, hosts: ['a.com'] });
+    });
+});
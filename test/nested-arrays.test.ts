@@ -288,7 +288,92 @@ describe('AutoEnvParse - Nested Array Support', () => {
         });
     });
 
-    describe('RegExp arrays - JSON only', () => {
+    describe('Arrays of primitives', () => {
+        it('should parse indexed variables coerced to the element type', () => {
+            const config = {
+                ports: [3000],
+                hosts: ['localhost'],
+                flags: [false]
+            };
+
+            process.env.TEST_PORTS_0 = '80';
+            process.env.TEST_PORTS_1 = '443';
+            process.env.TEST_HOSTS_0 = 'a.example.com';
+            process.env.TEST_HOSTS_1 = 'b.example.com';
+            process.env.TEST_FLAGS_0 = 'yes';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.ports).toEqual([80, 443]);
+            expect(config.hosts).toEqual(['a.example.com', 'b.example.com']);
+            expect(config.flags).toEqual([true]);
+        });
+
+        it('should compact sparse indices and ignore empty values', () => {
+            const config = { ports: [3000] };
+
+            process.env.TEST_PORTS_2 = '8080';
+            process.env.TEST_PORTS_5 = '9090';
+            process.env.TEST_PORTS_7 = '';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.ports).toEqual([8080, 9090]);
+        });
+
+        it('should prefer indexed variables over JSON', () => {
+            const config = { ports: [3000] };
+
+            process.env.TEST_PORTS = '[1, 2, 3]';
+            process.env.TEST_PORTS_0 = '80';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.ports).toEqual([80]);
+        });
+
+        it('should parse Date, URL and bigint elements', () => {
+            const config = {
+                holidays: [new Date(0)],
+                mirrors: [new URL('http://localhost')],
+                ids: [0n]
+            };
+
+            process.env.TEST_HOLIDAYS_0 = '2026-12-25';
+            process.env.TEST_MIRRORS_0 = 'https://mirror.example.com';
+            process.env.TEST_IDS_0 = '9007199254740993';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.holidays[0].toISOString()).toBe('2026-12-25T00:00:00.000Z');
+            expect(config.mirrors[0].host).toBe('mirror.example.com');
+            expect(config.ids).toEqual([9007199254740993n]);
+        });
+
+        it('should report invalid elements and keep the template value', () => {
+            process.env.TEST_PORTS_0 = '80';
+            process.env.TEST_PORTS_1 = 'http';
+
+            const result = AutoEnvParse.safeParse({ ports: [3000] }, { prefix: 'TEST', sources: ['env'], strict: true });
+
+            expect(result.success).toBe(false);
+            expect(result.data.ports).toEqual([80, 3000]);
+            expect(result.issues[0]).toMatchObject({ envVar: 'TEST_PORTS_1', path: 'ports.1', value: 'http', expected: 'number' });
+        });
+
+        it('should record each element in provenance', () => {
+            process.env.TEST_PORTS_0 = '80';
+            process.env.TEST_PORTS_1 = '443';
+
+            const { provenance } = AutoEnvParse.parse({ ports: [3000] }, { prefix: 'TEST', sources: ['env'], provenance: true });
+
+            expect(provenance.get('ports.0')).toMatchObject({ envVar: 'TEST_PORTS_0', source: 'dot-notation', applied: 80 });
+            expect(provenance.get('ports.1')).toMatchObject({ envVar: 'TEST_PORTS_1', source: 'dot-notation', applied: 443 });
+            expect(provenance.has('ports')).toBe(false);
+        });
+    });
+
+    describe('RegExp arrays', () => {
         it('should handle RegExp arrays via JSON only', () => {
             const config = {
                 patterns: [/test/]
@@ -321,6 +406,102 @@ describe('AutoEnvParse - Nested Array Support', () => {
         });
     });
 
+    describe('Arrays at every depth', () => {
+        it('should parse arrays inside nested objects', () => {
+            const config = {
+                cluster: {
+                    name: 'default',
+                    nodes: [{ host: 'localhost', port: 7000 }],
+                    ports: [7000]
+                }
+            };
+
+            process.env.TEST_CLUSTER_NODES_0_HOST = 'node-a';
+            process.env.TEST_CLUSTER_NODES_1_HOST = 'node-b';
+            process.env.TEST_CLUSTER_NODES_1_PORT = '7001';
+            process.env.TEST_CLUSTER_PORTS = '7000,7001';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.cluster.nodes).toEqual([{ host: 'node-a', port: 7000 }, { host: 'node-b', port: 7001 }]);
+            expect(config.cluster.ports).toEqual([7000, 7001]);
+            expect(config.cluster.name).toBe('default');
+        });
+
+        it('should parse arrays inside class instances', () => {
+            class Cluster {
+                nodes = [{ host: 'localhost' }];
+                tags = ['default'];
+            }
+            const config = { cluster: new Cluster() };
+
+            process.env.TEST_CLUSTER_NODES_0_HOST = 'node-a';
+            process.env.TEST_CLUSTER_TAGS = '["primary","eu"]';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.cluster).toBeInstanceOf(Cluster);
+            expect(config.cluster.nodes).toEqual([{ host: 'node-a' }]);
+            expect(config.cluster.tags).toEqual(['primary', 'eu']);
+        });
+
+        it('should parse arrays inside array elements', () => {
+            const config = {
+                regions: [{ name: '', zones: [{ id: '' }], replicas: [0] }]
+            };
+
+            process.env.TEST_REGIONS_0_NAME = 'eu';
+            process.env.TEST_REGIONS_0_ZONES_0_ID = 'eu-1a';
+            process.env.TEST_REGIONS_0_ZONES_1_ID = 'eu-1b';
+            process.env.TEST_REGIONS_0_REPLICAS_0 = '3';
+            process.env.TEST_REGIONS_1_NAME = 'us';
+            process.env.TEST_REGIONS_1_REPLICAS = '1,2';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.regions).toEqual([
+                { name: 'eu', zones: [{ id: 'eu-1a' }, { id: 'eu-1b' }], replicas: [3] },
+                { name: 'us', zones: [{ id: '' }], replicas: [1, 2] }
+            ]);
+        });
+
+        it('should parse arrays of arrays', () => {
+            const config = { matrix: [[0]] };
+
+            process.env.TEST_MATRIX_0_0 = '1';
+            process.env.TEST_MATRIX_0_1 = '2';
+            process.env.TEST_MATRIX_1_0 = '3';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.matrix).toEqual([[1, 2], [3]]);
+        });
+
+        it('should read JSON for nested arrays and prefer dot-notation', () => {
+            const config = { cluster: { nodes: [{ host: 'localhost' }] } };
+
+            process.env.TEST_CLUSTER = '{"nodes": [{"host": "json-a"}, {"host": "json-b"}]}';
+            process.env.TEST_CLUSTER_NODES_0_HOST = 'dot-a';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.cluster.nodes).toEqual([{ host: 'dot-a' }]);
+        });
+
+        it('should not share nested defaults between array elements', () => {
+            const template = { limits: { max: 1 }, tags: ['a'] };
+            const config = { pools: [template] };
+
+            process.env.TEST_POOLS_0_LIMITS_MAX = '5';
+            process.env.TEST_POOLS_1_TAGS = 'b,c';
+
+            AutoEnvParse.parse(config, { prefix: 'TEST' });
+
+            expect(config.pools).toEqual([{ limits: { max: 5 }, tags: ['a'] }, { limits: { max: 1 }, tags: ['b', 'c'] }]);
+            expect(template).toEqual({ limits: { max: 1 }, tags: ['a'] });
+        });
+    });
+
     describe('Partial updates', () => {
         it('should update only specified array elements', () => {
             const config = {
@@ -439,24 +620,22 @@ describe('AutoEnvParse - Nested Array Support', () => {
     });
 
     describe('Edge cases for coverage', () => {
-        it('should handle arrays of primitives with dot-notation indices', () => {
+        it('should not read element properties for arrays of primitives', () => {
             const config = {
                 numbers: [0]
             };
 
-            // For primitive arrays, dot-notation detection happens but
-            // elements remain as template values since primitives can't have nested properties
+            // Primitive elements have no properties, only NAME_<index> is read
             process.env.TEST_NUMBERS_0_VALUE = '10';
             process.env.TEST_NUMBERS_1_VALUE = '20';
 
             AutoEnvParse.parse(config, { prefix: 'TEST' });
 
-            // Array should be created based on indices, but values remain as template
-            expect(config.numbers).toHaveLength(2);
+            expect(config.numbers).toEqual([0]);
         });
 
         it('should skip inherited properties in array element objects', () => {
-            // Test that inherited properties are skipped in parseObjectPropertiesRecursive
+            // Test that inherited properties are skipped when walking array elements
             // This test uses a template with an inherited property
             const proto = { inherited: 'base-value' };
             const template = Object.create(proto);
@@ -477,36 +656,5 @@ describe('AutoEnvParse - Nested Array Support', () => {
             // So the result won't have the inherited property at all
             expect(Object.prototype.hasOwnProperty.call(config.items[0], 'inherited')).toBe(false);
         });
-
-        it('should trigger continue branch for inherited properties using manual object manipulation', () => {
-            // Directly test parseObjectPropertiesRecursive by creating an object
-            // with inherited properties after JSON parsing
-            const template = { own: 'value' };
-
-            // Create an object with inherited property AFTER parsing starts
-            const proto = { inherited: 'base' };
-            const targetWithInherited = Object.create(proto);
-            targetWithInherited.own = 'value';
-
-            // Manually invoke parseObjectPropertiesRecursive via reflection
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const AutoEnvParseAny = AutoEnvParse as any;
-
-            process.env.TEST_ITEMS_0_OWN = 'updated';
-
-            // This should skip the inherited property due to hasOwnProperty check
-            AutoEnvParseAny.parseObjectPropertiesRecursive(
-                targetWithInherited,
-                'TEST_ITEMS_0',
-                template,
-                process.env
-            );
-
-            // Own property should be updated
-            expect(targetWithInherited.own).toBe('updated');
-            // Inherited property should not be updated (stays on prototype)
-            expect(targetWithInherited.inherited).toBe('base');
-            expect(Object.prototype.hasOwnProperty.call(targetWithInherited, 'inherited')).toBe(false);
-        });
     });
 });
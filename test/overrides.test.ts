@@ -125,6 +125,18 @@ describe('AutoEnvParse - Overrides', () => {
 
             expect(config.mode).toBe('write');
         });
+
+        it('should read process.env and throw when called without a context', () => {
+            const config = { mode: 'read' };
+            const override = AutoEnvParse.enumValidator<typeof config>('mode', ['read', 'write']);
+
+            process.env.TEST_MODE = 'write';
+            override(config, 'TEST_MODE');
+            expect(config.mode).toBe('write');
+
+            process.env.TEST_MODE = 'admin';
+            expect(() => override(config, 'TEST_MODE')).toThrow('Invalid value for TEST_MODE: "admin". Must be one of: read, write');
+        });
     });
 
     describe('transform()', () => {
@@ -310,5 +322,22 @@ describe('AutoEnvParse - Overrides', () => {
             expect(config.enabled).toBe(true);
             expect(config.ratio).toBe(0.75);
         });
+
+        it('should read process.env and warn when called without a context', () => {
+            const config = { port: 3000 };
+            const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            process.env.TEST_PORT = '8080';
+            AutoEnvParse.transform<typeof config>('port', (val) => parseInt(val))(config, 'TEST_PORT');
+            expect(config.port).toBe(8080);
+
+            AutoEnvParse.transform<typeof config>('port', () => {
+                throw new Error('not a port');
+            })(config, 'TEST_PORT');
+            expect(config.port).toBe(8080);
+            expect(consoleWarnSpy).toHaveBeenCalledWith('Warning: Transform failed for TEST_PORT: not a port');
+
+            consoleWarnSpy.mockRestore();
+        });
     });
 });
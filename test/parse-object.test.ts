@@ -213,7 +213,7 @@ describe('AutoEnvParse - Object Parsing', () => {
                 tags: ['default']
             };
 
-            process.env.TEST_TAGS = 'not-json';
+            process.env.TEST_TAGS = '[not-json';
 
             AutoEnvParse.parse(config, { prefix: 'TEST' });
 
@@ -0,0 +1,197 @@
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AutoEnvParse, ProvenanceResult } from '../src/autoEnvParse';
+import { Provenance } from '../src/provenance';
+
+/**
+ * Tests for provenance tracking.
+ */
+describe('AutoEnvParse - Provenance', () => {
+    const originalEnv = { ...process.env };
+    const envFile = path.join(process.cwd(), '.env.provenance-test');
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        if (fs.existsSync(envFile)) {
+            fs.unlinkSync(envFile);
+        }
+    });
+
+    it('should return data and provenance when enabled', () => {
+        process.env.TEST_PORT = '8080';
+
+        const { data, provenance } = AutoEnvParse.parse(
+            { host: 'localhost', port: 5432 },
+            { prefix: 'TEST', sources: ['env'], provenance: true }
+        );
+
+        expect(data).toEqual({ host: 'localhost', port: 8080 });
+        expect(provenance).toBeInstanceOf(Provenance);
+        expect(provenance.get('port')).toEqual({
+            envVar: 'TEST_PORT',
+            source: 'env',
+            file: undefined,
+            line: undefined,
+            rawValue: '8080',
+            applied: 8080
+        });
+        expect(provenance.get('host')).toEqual({
+            envVar: undefined,
+            source: 'default',
+            file: undefined,
+            line: undefined,
+            rawValue: undefined,
+            applied: 'localhost'
+        });
+    });
+
+    it('should return only the data when not enabled', () => {
+        const config = AutoEnvParse.parse({ host: 'localhost' }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config).toEqual({ host: 'localhost' });
+    });
+
+    it('should type a runtime flag as either result', () => {
+        class DbConfig {
+            host = 'localhost';
+        }
+        const track = (enabled: boolean): boolean => enabled;
+
+        const withFlag = AutoEnvParse.parse({ host: 'localhost' }, { prefix: 'TEST', sources: ['env'], provenance: track(true) });
+        const withoutFlag = AutoEnvParse.parse(DbConfig, { prefix: 'TEST', sources: ['env'], provenance: track(false) });
+
+        expectTypeOf(withFlag).toEqualTypeOf<{ host: string } | ProvenanceResult<{ host: string }>>();
+        expectTypeOf(withoutFlag).toEqualTypeOf<DbConfig | ProvenanceResult<DbConfig>>();
+        expectTypeOf(AutoEnvParse.parse({ host: '' }, { provenance: false })).toEqualTypeOf<{ host: string }>();
+        expect(withFlag).toMatchObject({ data: { host: 'localhost' } });
+        expect(withFlag).toHaveProperty('provenance');
+        expect(withoutFlag).toBeInstanceOf(DbConfig);
+    });
+
+    it('should record the env file and line', () => {
+        fs.writeFileSync(envFile, '# Database\nTEST_HOST=db.example.com\n\nTEST_PORT="6543"\n');
+
+        const { provenance } = AutoEnvParse.parse(
+            { host: 'localhost', port: 5432 },
+            { prefix: 'TEST', sources: ['env', '.env.provenance-test'], provenance: true }
+        );
+
+        expect(provenance.get('host')).toMatchObject({ file: '.env.provenance-test', line: 2, rawValue: 'db.example.com' });
+        expect(provenance.get('port')).toMatchObject({ file: '.env.provenance-test', line: 4, rawValue: '6543', applied: 6543 });
+    });
+
+    it('should omit the line for keys renamed by a custom parser', () => {
+        fs.writeFileSync(envFile, 'host: db.example.com\n');
+        const envFileParser = (content: string): Record<string, string> => ({ TEST_HOST: content.split(': ')[1].trim() });
+
+        const { provenance } = AutoEnvParse.parse(
+            { host: 'localhost' },
+            { prefix: 'TEST', sources: ['.env.provenance-test'], envFileParser, provenance: true }
+        );
+
+        expect(provenance.get('host')).toMatchObject({ file: '.env.provenance-test', line: undefined });
+        expect(provenance.toTable()).toContain('| .env.provenance-test | db.example.com |');
+    });
+
+    it('should attribute values overridden by process.env to process.env', () => {
+        fs.writeFileSync(envFile, 'TEST_HOST=from-file\n');
+        process.env.TEST_HOST = 'from-env';
+
+        const { provenance } = AutoEnvParse.parse(
+            { host: 'localhost' },
+            { prefix: 'TEST', sources: ['env', '.env.provenance-test'], provenance: true }
+        );
+
+        expect(provenance.get('host')).toMatchObject({ file: undefined, line: undefined, rawValue: 'from-env' });
+    });
+
+    it('should distinguish JSON and dot-notation values', () => {
+        process.env.TEST_POOL = '{"min":1}';
+        process.env.TEST_POOL_MAX = '20';
+        process.env.TEST_SERVERS = '[{"host":"a"},{"host":"b"}]';
+
+        const { provenance } = AutoEnvParse.parse(
+            { pool: { min: 0, max: 10 }, servers: [{ host: 'x' }] },
+            { prefix: 'TEST', sources: ['env'], provenance: true }
+        );
+
+        expect(provenance.get('pool.min')).toMatchObject({ envVar: 'TEST_POOL', source: 'json', applied: 1 });
+        expect(provenance.get('pool.max')).toMatchObject({ envVar: 'TEST_POOL_MAX', source: 'dot-notation', applied: 20 });
+        expect(provenance.get('servers.1.host')).toMatchObject({ envVar: 'TEST_SERVERS', source: 'json', applied: 'b' });
+    });
+
+    it('should report overrides', () => {
+        process.env.TEST_TAGS = 'a,b';
+
+        const { provenance } = AutoEnvParse.parse(
+            { tags: ['x'] },
+            {
+                prefix: 'TEST',
+                sources: ['env'],
+                provenance: true,
+                overrides: {
+                    tags: (obj, envVar) => {
+                        obj.tags = process.env[envVar]!.split(',');
+                    }
+                }
+            }
+        );
+
+        expect(provenance.get('tags')).toMatchObject({ envVar: 'TEST_TAGS', source: 'override', rawValue: 'a,b', applied: ['a', 'b'] });
+    });
+
+    it('should include provenance in safeParse results', () => {
+        process.env.TEST_PORT = 'abc';
+
+        const result = AutoEnvParse.safeParse({ port: 5432 }, { prefix: 'TEST', sources: ['env'], provenance: true });
+
+        expect(result.success).toBe(false);
+        expect(result.provenance?.get('port')).toMatchObject({ envVar: 'TEST_PORT', rawValue: 'abc', applied: 5432 });
+    });
+
+    it('should format provenance as a table', () => {
+        fs.writeFileSync(envFile, 'TEST_PORT=8080\n');
+
+        const { provenance } = AutoEnvParse.parse(
+            { host: 'localhost', port: 5432 },
+            { prefix: 'TEST', sources: ['env', '.env.provenance-test'], provenance: true }
+        );
+
+        expect(provenance.toTable()).toBe([
+            'Path | Env Var   | Source  | File                   | Raw Value | Applied',
+            '-----|-----------|---------|------------------------|-----------|------------',
+            'host |           | default |                        |           | "localhost"',
+            'port | TEST_PORT | env     | .env.provenance-test:1 | 8080      | 8080'
+        ].join('\n'));
+    });
+
+    it('should format collections, patterns and bigints in the table', () => {
+        process.env.TEST_LIMITS = 'api=5';
+        process.env.TEST_IDS = '1,2';
+
+        const { provenance } = AutoEnvParse.parse(
+            { limits: new Map([['api', 1]]), roles: new Set(['read']), pattern: /^x/i, patterns: [/a/], ids: [0n], max: 5n },
+            { prefix: 'TEST', sources: ['env'], provenance: true }
+        );
+
+        expect(provenance.toTable()).toBe([
+            'Path     | Env Var     | Source  | File        | Raw Value | Applied',
+            '---------|-------------|---------|-------------|-----------|------------',
+            'limits   | TEST_LIMITS | env     | process.env | api=5     | {"api":5}',
+            'roles    |             | default |             |           | ["read"]',
+            'pattern  |             | default |             |           | /^x/i',
+            'patterns |             | default |             |           | ["/a/"]',
+            'ids      | TEST_IDS    | env     | process.env | 1,2       | ["1n","2n"]',
+            'max      |             | default |             |           | 5n'
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+
+/**
+ * Tests for record properties keyed by name.
+ */
+describe('AutoEnvParse - Records', () => {
+    const originalEnv = { ...process.env };
+    const database = { host: 'localhost', port: 5432 };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    it('should discover entries from variable names', () => {
+        process.env.TEST_DATABASES_PRIMARY_HOST = 'db1.internal';
+        process.env.TEST_DATABASES_ANALYTICS_HOST = 'db2.internal';
+        process.env.TEST_DATABASES_ANALYTICS_PORT = '5433';
+
+        const config = AutoEnvParse.parse(
+            { databases: {} as Record<string, typeof database> },
+            { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+        );
+
+        expect(config.databases).toEqual({
+            analytics: { host: 'db2.internal', port: 5433 },
+            primary: { host: 'db1.internal', port: 5432 }
+        });
+        expect(database).toEqual({ host: 'localhost', port: 5432 });
+    });
+
+    it('should convert keys to camelCase', () => {
+        process.env.TEST_DATABASES_READ_REPLICA_HOST = 'replica.internal';
+        process.env.TEST_DATABASES_SHARD_2_PORT = '6000';
+
+        const config = AutoEnvParse.parse(
+            { databases: {} as Record<string, typeof database> },
+            { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+        );
+
+        expect(Object.keys(config.databases)).toEqual(['readReplica', 'shard2']);
+        expect(config.databases.readReplica.host).toBe('replica.internal');
+        expect(config.databases.shard2.port).toBe(6000);
+    });
+
+    it('should use the longest key before a template property', () => {
+        process.env.TEST_DATABASES_MAIN_HOST_HOST = 'db.internal';
+
+        const config = AutoEnvParse.parse(
+            { databases: {} as Record<string, typeof database> },
+            { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+        );
+
+        expect(config.databases).toEqual({ mainHost: { host: 'db.internal', port: 5432 } });
+    });
+
+    it('should read primitive entries from NAME_<KEY>', () => {
+        process.env.TEST_TENANT_LIMITS_ACME = '100';
+        process.env.TEST_TENANT_LIMITS_GLOBEX_CORP = '250';
+        process.env.TEST_TENANT_LIMITS_EMPTY = '';
+
+        const config = AutoEnvParse.parse(
+            { tenantLimits: {} as Record<string, number> },
+            { prefix: 'TEST', sources: ['env'], records: { tenantLimits: 0 } }
+        );
+
+        expect(config.tenantLimits).toEqual({ acme: 100, globexCorp: 250 });
+    });
+
+    it('should parse nested objects and arrays in entries', () => {
+        const template = { host: 'localhost', pool: { max: 10 }, replicas: [''] };
+        process.env.TEST_DATABASES_PRIMARY_POOL_MAX = '50';
+        process.env.TEST_DATABASES_PRIMARY_REPLICAS_0 = 'r1';
+        process.env.TEST_DATABASES_PRIMARY_REPLICAS_1 = 'r2';
+
+        const config = AutoEnvParse.parse(
+            { databases: {} as Record<string, typeof template> },
+            { prefix: 'TEST', sources: ['env'], records: { databases: template } }
+        );
+
+        expect(config.databases.primary).toEqual({ host: 'localhost', pool: { max: 50 }, replicas: ['r1', 'r2'] });
+    });
+
+    it('should keep and update entries of the default', () => {
+        process.env.TEST_DATABASES_PRIMARY_PORT = '6543';
+
+        const config = AutoEnvParse.parse(
+            { databases: { primary: { host: 'main', port: 5432 }, archive: { host: 'cold', port: 5432 } } },
+            { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+        );
+
+        expect(config.databases).toEqual({ primary: { host: 'main', port: 6543 }, archive: { host: 'cold', port: 5432 } });
+    });
+
+    it('should read URL and array entries', () => {
+        process.env.TEST_ENDPOINTS_BILLING = 'https://billing.internal';
+        process.env.TEST_ENDPOINTS_SEARCH_PORT = '9200';
+        process.env.TEST_REPLICAS_EU_0 = 'eu-1';
+        process.env.TEST_REPLICAS_EU_1 = 'eu-2';
+
+        const config = AutoEnvParse.parse(
+            { endpoints: {} as Record<string, URL>, replicas: {} as Record<string, string[]> },
+            {
+                prefix: 'TEST',
+                sources: ['env'],
+                records: { endpoints: new URL('http://localhost:8080'), replicas: ['primary'] }
+            }
+        );
+
+        expect(config.endpoints.billing.href).toBe('https://billing.internal/');
+        expect(config.endpoints.search.port).toBe('9200');
+        expect(config.replicas).toEqual({ eu: ['eu-1', 'eu-2'] });
+    });
+
+    describe('discovery', () => {
+        it('should leave variables of sibling properties alone', () => {
+            process.env.TEST_DATABASES_PRIMARY_HOST = 'db1';
+            process.env.TEST_DATABASES_BACKUP = 'true';
+            process.env.TEST_DATABASES_ARCHIVE_HOST = 'cold';
+
+            const result = AutoEnvParse.safeParse(
+                { databases: {} as Record<string, typeof database>, databasesBackup: false, databasesArchive: { host: '' } },
+                { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+            );
+
+            expect(result.issues).toEqual([]);
+            expect(result.data.databases).toEqual({ primary: { host: 'db1', port: 5432 } });
+            expect(result.data.databasesBackup).toBe(true);
+            expect(result.data.databasesArchive).toEqual({ host: 'cold' });
+        });
+
+        it('should report names without a template property as unknown', () => {
+            process.env.TEST_DATABASES_PRIMARY_HOST = 'db1';
+            process.env.TEST_DATABASES_PRIMARY_HSOT = 'db2';
+
+            const result = AutoEnvParse.safeParse(
+                { databases: {} as Record<string, typeof database> },
+                { prefix: 'TEST', sources: ['env'], records: { databases: database }, unknownVariables: 'error' }
+            );
+
+            expect(result.data.databases).toEqual({ primary: { host: 'db1', port: 5432 } });
+            expect(result.issues.map(issue => issue.message)).toEqual([
+                'Unknown environment variable TEST_DATABASES_PRIMARY_HSOT (did you mean TEST_DATABASES_PRIMARY_HOST?)'
+            ]);
+        });
+    });
+
+    describe('JSON', () => {
+        it('should accept a JSON object', () => {
+            process.env.TEST_DATABASES = '{"primary": {"host": "db1", "port": 5433}, "readReplica": {"host": "db2"}}';
+
+            const config = AutoEnvParse.parse(
+                { databases: {} as Record<string, typeof database> },
+                { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+            );
+
+            expect(config.databases).toEqual({
+                primary: { host: 'db1', port: 5433 },
+                readReplica: { host: 'db2', port: 5432 }
+            });
+        });
+
+        it('should apply variables per entry over JSON', () => {
+            process.env.TEST_DATABASES = '{"primary": {"host": "db1"}}';
+            process.env.TEST_DATABASES_PRIMARY_HOST = 'override';
+            process.env.TEST_DATABASES_SECONDARY_PORT = '6000';
+
+            const config = AutoEnvParse.parse(
+                { databases: {} as Record<string, typeof database> },
+                { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+            );
+
+            expect(config.databases).toEqual({
+                primary: { host: 'override', port: 5432 },
+                secondary: { host: 'localhost', port: 6000 }
+            });
+        });
+
+        it('should accept JSON for a single entry', () => {
+            process.env.TEST_DATABASES_PRIMARY = '{"host": "db1"}';
+
+            const config = AutoEnvParse.parse(
+                { databases: {} as Record<string, typeof database> },
+                { prefix: 'TEST', sources: ['env'], records: { databases: database } }
+            );
+
+            expect(config.databases).toEqual({ primary: { host: 'db1', port: 5432 } });
+        });
+
+        it('should revive primitive entries', () => {
+            process.env.TEST_TENANT_LIMITS = '{"acme": 100, "globex": 250}';
+
+            const config = AutoEnvParse.parse(
+                { tenantLimits: { initech: 10 } as Record<string, number> },
+                { prefix: 'TEST', sources: ['env'], records: { tenantLimits: 0 } }
+            );
+
+            expect(config.tenantLimits).toEqual({ initech: 10, acme: 100, globex: 250 });
+        });
+
+        it('should report invalid JSON and keep the default', () => {
+            process.env.TEST_DATABASES = '{primary: db1}';
+
+            const result = AutoEnvParse.safeParse(
+                { databases: { primary: { host: 'main', port: 5432 } } },
+                { prefix: 'TEST', sources: ['env'], errorMode: 'collect', records: { databases: database } }
+            );
+
+            expect(result.data.databases).toEqual({ primary: { host: 'main', port: 5432 } });
+            expect(result.issues[0]).toMatchObject({
+                envVar: 'TEST_DATABASES',
+                path: 'databases',
+                value: '{primary: db1}',
+                message: 'Invalid TEST_DATABASES format. Expected JSON object.'
+            });
+        });
+
+        it('should report values that are not JSON objects', () => {
+            process.env.TEST_DATABASES = '["db1"]';
+            process.env.TEST_CACHES = '{"sessions": "redis://cache", "pages": {"host": "cache2"}}';
+
+            const result = AutoEnvParse.safeParse(
+                { databases: {} as Record<string, typeof database>, caches: {} as Record<string, typeof database> },
+                { prefix: 'TEST', sources: ['env'], errorMode: 'collect', records: { databases: database, caches: database } }
+            );
+
+            expect(result.data.databases).toEqual({});
+            expect(result.data.caches).toEqual({ pages: { host: 'cache2', port: 5432 } });
+            expect(result.issues.map(issue => issue.message)).toEqual([
+                'Invalid TEST_DATABASES format. Expected JSON object.',
+                'Invalid TEST_CACHES format. Expected JSON object for "caches.sessions".'
+            ]);
+        });
+    });
+
+    it('should support records in nested objects and array elements', () => {
+        process.env.TEST_STORAGE_BUCKETS_LOGS_REGION = 'eu-west-1';
+        process.env.TEST_TENANTS_0_QUOTAS_API = '5';
+
+        const config = AutoEnvParse.parse(
+            {
+                storage: { buckets: {} as Record<string, { region: string }> },
+                tenants: [{ name: 'a', quotas: {} as Record<string, number> }]
+            },
+            { prefix: 'TEST', sources: ['env'], records: { 'storage.buckets': { region: 'us-east-1' }, 'tenants.*.quotas': 0 } }
+        );
+
+        expect(config.storage.buckets).toEqual({ logs: { region: 'eu-west-1' } });
+        expect(config.tenants[0].quotas).toEqual({ api: 5 });
+    });
+
+    it('should count entry variables as known and record provenance', () => {
+        process.env.TEST_DATABASES_PRIMARY_HOST = 'db1';
+
+        const result = AutoEnvParse.safeParse(
+            { databases: {} as Record<string, typeof database> },
+            { prefix: 'TEST', sources: ['env'], records: { databases: database }, unknownVariables: 'error', provenance: true }
+        );
+
+        expect(result.issues).toEqual([]);
+        expect(result.provenance?.get('databases.primary.host')).toMatchObject({ envVar: 'TEST_DATABASES_PRIMARY_HOST', source: 'dot-notation' });
+    });
+});
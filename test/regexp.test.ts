@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError } from '../src/errors';
+
+/**
+ * Tests for RegExp properties and the /source/flags syntax.
+ */
+describe('AutoEnvParse - RegExp', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('parseRegExp()', () => {
+        it('should parse /source/flags literals', () => {
+            const pattern = AutoEnvParse.parseRegExp('/^api\\/v[0-9]+/gi');
+
+            expect(pattern.source).toBe('^api\\/v[0-9]+');
+            expect(pattern.flags).toBe('gi');
+        });
+
+        it('should give plain patterns the default flags', () => {
+            expect(AutoEnvParse.parseRegExp('^admin', 'i').flags).toBe('i');
+            expect(AutoEnvParse.parseRegExp('^admin').flags).toBe('');
+        });
+
+        it('should use the flags of a literal, even when empty', () => {
+            expect(AutoEnvParse.parseRegExp('/^admin/', 'i').flags).toBe('');
+        });
+
+        it('should reject invalid patterns and flags', () => {
+            for (const value of ['(unclosed', '/[a-/', '/ok/xyz', '/ok/gg']) {
+                expect(() => AutoEnvParse.parseRegExp(value)).toThrow(CoercionError);
+            }
+        });
+
+        it('should ignore surrounding whitespace', () => {
+            expect(AutoEnvParse.parseRegExp('  /x/ig ')).toEqual(/x/gi);
+            expect(AutoEnvParse.parseRegExp(' ^admin\n', 'i')).toEqual(/^admin/i);
+        });
+
+        it('should reject empty patterns', () => {
+            for (const value of ['', '  ', '//', '//gi', ' // ']) {
+                expect(() => AutoEnvParse.parseRegExp(value)).toThrow(CoercionError);
+            }
+        });
+
+        it('should be available through coerceValue()', () => {
+            expect(AutoEnvParse.coerceValue('/a+/m', 'regexp')).toEqual(/a+/m);
+        });
+    });
+
+    it('should parse standalone RegExp properties', () => {
+        process.env.TEST_PATTERN = '/^bar$/m';
+        process.env.TEST_ROUTE = '^/api/';
+
+        const config = AutoEnvParse.parse({ pattern: /foo/i, route: /^\/$/i }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.pattern).toEqual(/^bar$/m);
+        expect(config.route.source).toBe('^\\/api\\/');
+        expect(config.route.flags).toBe('i');
+    });
+
+    it('should keep the default for empty values', () => {
+        process.env.TEST_ALLOW = '';
+        process.env.TEST_DENY = '  ';
+
+        const result = AutoEnvParse.safeParse(
+            { allow: /^admin$/i, deny: null as RegExp | null },
+            { prefix: 'TEST', sources: ['env'], strict: true, types: { deny: 'regexp' } }
+        );
+
+        expect(result.issues).toEqual([]);
+        expect(result.data.allow).toEqual(/^admin$/i);
+        expect(result.data.deny).toBeNull();
+    });
+
+    it('should report empty literals and keep the default', () => {
+        process.env.TEST_ALLOW = '//i';
+
+        const result = AutoEnvParse.safeParse({ allow: /^admin$/i }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.data.allow).toEqual(/^admin$/i);
+        expect(result.issues[0]).toMatchObject({ envVar: 'TEST_ALLOW', value: '//i', expected: 'RegExp' });
+    });
+
+    it('should parse RegExps in nested objects, class instances and array elements', () => {
+        class Filter {
+            include = /.*/;
+        }
+        process.env.TEST_ROUTING_IGNORE = 'health';
+        process.env.TEST_FILTER_INCLUDE = '/^src/';
+        process.env.TEST_RULES_0_MATCH = '/x/g';
+
+        const config = AutoEnvParse.parse(
+            { routing: { ignore: /^$/i }, filter: new Filter(), rules: [{ match: /y/ }] },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.routing.ignore).toEqual(/health/i);
+        expect(config.filter.include).toEqual(/^src/);
+        expect(config.rules[0].match).toEqual(/x/g);
+    });
+
+    it('should preserve default flags in JSON arrays and accept literals', () => {
+        process.env.TEST_PATTERNS = '["^foo", "/bar$/g"]';
+
+        const config = AutoEnvParse.parse({ patterns: [/test/i] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.patterns).toEqual([/^foo/i, /bar$/g]);
+    });
+
+    it('should parse indexed RegExp array elements', () => {
+        process.env.TEST_PATTERNS_0 = '/a,b/';
+        process.env.TEST_PATTERNS_1 = 'c{1,2}';
+
+        const config = AutoEnvParse.parse({ patterns: [/test/i] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.patterns).toEqual([/a,b/, /c{1,2}/i]);
+    });
+
+    it('should parse RegExps inside JSON objects', () => {
+        process.env.TEST_ROUTING = '{"ignore": "/^internal/"}';
+
+        const config = AutoEnvParse.parse({ routing: { ignore: /^$/ } }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.routing.ignore).toEqual(/^internal/);
+    });
+
+    it('should report invalid patterns as validation errors and keep the default', () => {
+        process.env.TEST_PATTERN = '([a-z]';
+
+        const result = AutoEnvParse.safeParse({ pattern: /foo/i }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.success).toBe(false);
+        expect(result.data.pattern).toEqual(/foo/i);
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_PATTERN',
+            path: 'pattern',
+            value: '([a-z]',
+            expected: 'RegExp',
+            message: 'Invalid RegExp value for TEST_PATTERN: "([a-z]"'
+        });
+    });
+
+    it('should throw for invalid patterns by default', () => {
+        process.env.TEST_PATTERNS = '["ok", "(bad"]';
+
+        expect(() => AutoEnvParse.parse({ patterns: [/x/] }, { prefix: 'TEST', sources: ['env'] }))
+            .toThrow('Invalid RegExp value for TEST_PATTERNS: "(bad"');
+    });
+
+    it('should support the regexp type hint for null defaults', () => {
+        process.env.TEST_PATTERN = '/^v\\d+$/';
+
+        const config = AutoEnvParse.parse(
+            { pattern: null as RegExp | null },
+            { prefix: 'TEST', sources: ['env'], types: { pattern: 'regexp' } }
+        );
+
+        expect(config.pattern).toEqual(/^v\d+$/);
+    });
+
+    it('should keep default flags in validate() overrides', () => {
+        process.env.TEST_PATTERN = 'bar';
+
+        const config = AutoEnvParse.parse(
+            { pattern: /foo/i },
+            { prefix: 'TEST', sources: ['env'], overrides: { pattern: AutoEnvParse.validate('pattern') } }
+        );
+
+        expect(config.pattern).toEqual(/bar/i);
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { EnvValidationError } from '../src/errors';
+
+/**
+ * Tests for the `required` option.
+ */
+describe('AutoEnvParse - Required Properties', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    it('should pass when required variables are set', () => {
+        process.env.TEST_PASSWORD = 'secret';
+
+        const config = AutoEnvParse.parse({ password: '' }, { prefix: 'TEST', sources: ['env'], required: ['password'] });
+
+        expect(config.password).toBe('secret');
+    });
+
+    it('should report every missing variable together', () => {
+        const config = { password: 'changeme', apiKey: '', port: 3000 };
+
+        let error: unknown;
+        try {
+            AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], required: ['password', 'apiKey', 'port'] });
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(EnvValidationError);
+        expect((error as EnvValidationError).issues).toEqual([
+            expect.objectContaining({ envVar: 'TEST_PASSWORD', path: 'password', value: undefined, source: undefined, expected: 'string' }),
+            expect.objectContaining({ envVar: 'TEST_API_KEY', path: 'apiKey' }),
+            expect.objectContaining({ envVar: 'TEST_PORT', path: 'port', expected: 'number' })
+        ]);
+        expect((error as EnvValidationError).message).toContain('Missing required environment variable TEST_PASSWORD');
+    });
+
+    it('should treat empty values as missing', () => {
+        process.env.TEST_PASSWORD = '';
+
+        const result = AutoEnvParse.safeParse({ password: 'x' }, { prefix: 'TEST', sources: ['env'], required: ['password'] });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('should support nested object properties via dot-notation or JSON', () => {
+        const config = { database: { host: 'localhost', password: '' } };
+
+        process.env.TEST_DATABASE = '{"host":"db.example.com"}';
+
+        const result = AutoEnvParse.safeParse(config, {
+            prefix: 'TEST',
+            sources: ['env'],
+            required: ['database.host', 'database.password']
+        });
+
+        expect(result.issues.map(i => i.envVar)).toEqual(['TEST_DATABASE_PASSWORD']);
+    });
+
+    it('should accept a nested object as supplied when any of its properties is set', () => {
+        process.env.TEST_DATABASE_HOST = 'db.example.com';
+
+        const result = AutoEnvParse.safeParse({ database: { host: 'localhost' } }, {
+            prefix: 'TEST',
+            sources: ['env'],
+            required: ['database']
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('should support complex object (class instance) properties', () => {
+        class Credentials {
+            user = 'admin';
+            password = '';
+        }
+        class Config {
+            credentials = new Credentials();
+        }
+
+        process.env.TEST_CREDENTIALS_USER = 'app';
+
+        const result = AutoEnvParse.safeParse(Config, {
+            prefix: 'TEST',
+            sources: ['env'],
+            required: ['credentials.user', 'credentials.password']
+        });
+
+        expect(result.issues.map(i => i.envVar)).toEqual(['TEST_CREDENTIALS_PASSWORD']);
+    });
+
+    it('should check every array element with a * segment', () => {
+        const config = { servers: [{ host: 'localhost', port: 80 }] };
+
+        process.env.TEST_SERVERS_0_HOST = 'a.com';
+        process.env.TEST_SERVERS_1_PORT = '8080';
+
+        const result = AutoEnvParse.safeParse(config, {
+            prefix: 'TEST',
+            sources: ['env'],
+            required: ['servers.*.host']
+        });
+
+        expect(result.issues.map(i => [i.path, i.envVar])).toEqual([['servers.1.host', 'TEST_SERVERS_1_HOST']]);
+    });
+
+    it('should accept array elements supplied as JSON', () => {
+        process.env.TEST_SERVERS = '[{"host":"a.com"},{"host":"b.com"}]';
+
+        const result = AutoEnvParse.safeParse({ servers: [{ host: 'localhost' }] }, {
+            prefix: 'TEST',
+            sources: ['env'],
+            required: ['servers.*.host']
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('should accept properties handled by overrides', () => {
+        process.env.TEST_ENV = 'prod';
+
+        const config = AutoEnvParse.parse({ env: 'dev' }, {
+            prefix: 'TEST',
+            sources: ['env'],
+            required: ['env'],
+            overrides: new Map([['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])]])
+        });
+
+        expect(config.env).toBe('prod');
+    });
+
+    it('should throw for paths that do not exist in the config', () => {
+        expect(() => {
+            AutoEnvParse.parse({ password: '' }, { prefix: 'TEST', sources: ['env'], required: ['pasword'] });
+        }).toThrow('Invalid required path "pasword". Property "pasword" does not exist.');
+    });
+});
@@ -0,0 +1,423 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { z as z3 } from 'zod/v3';
+import * as v from 'valibot';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { EnvValidationError } from '../src/errors';
+import { describeExpected, describeSchema, LeafType, SchemaNode } from '../src/schema';
+
+/**
+ * Tests for parseSchema() with Standard Schema libraries.
+ */
+describe('AutoEnvParse - Schema Adapters', () => {
+    const originalEnv = { ...process.env };
+    const testEnvFile = path.join(process.cwd(), '.env.schema-test');
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(testEnvFile)) {
+            fs.unlinkSync(testEnvFile);
+        }
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('Zod', () => {
+        const schema = z.object({
+            host: z.string().default('localhost'),
+            port: z.number().int().min(1).max(65535),
+            ssl: z.boolean().default(false),
+            mode: z.enum(['primary', 'replica']).optional(),
+            poolSize: z.union([z.number(), z.literal('auto')]).default('auto')
+        });
+
+        it('should derive env var names and coerce leaf types', () => {
+            process.env.TEST_PORT = '5432';
+            process.env.TEST_SSL = 'yes';
+            process.env.TEST_MODE = 'replica';
+            process.env.TEST_POOL_SIZE = '20';
+
+            const config = AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config).toEqual({ host: 'localhost', port: 5432, ssl: true, mode: 'replica', poolSize: 20 });
+        });
+
+        it('should leave unset variables to schema defaults and optionals', () => {
+            process.env.TEST_PORT = '80';
+
+            const config = AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config).toEqual({ host: 'localhost', port: 80, ssl: false, poolSize: 'auto' });
+            expect('mode' in config).toBe(false);
+        });
+
+        it('should report every schema issue with env var names', () => {
+            process.env.TEST_PORT = '70000';
+            process.env.TEST_MODE = 'standby';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(EnvValidationError);
+            const issues = (error as EnvValidationError).issues;
+            expect(issues.map(i => [i.envVar, i.path, i.value, i.source])).toEqual([
+                ['TEST_PORT', 'port', '70000', 'env'],
+                ['TEST_MODE', 'mode', 'standby', 'env']
+            ]);
+            expect(issues[0].expected).toBe('number');
+            expect(issues[0].message).toMatch(/^Invalid value for TEST_PORT: /);
+        });
+
+        it('should report missing required variables', () => {
+            expect(() => {
+                AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+            }).toThrow(EnvValidationError);
+        });
+
+        it('should keep raw strings for leaves that accept any string', () => {
+            const versions = z.object({
+                version: z.union([z.string(), z.number()]),
+                code: z.string().or(z.boolean()),
+                build: z.union([z.number(), z.literal('latest')])
+            });
+
+            process.env.TEST_VERSION = '1.10';
+            process.env.TEST_CODE = '007';
+            process.env.TEST_BUILD = '42';
+
+            expect(AutoEnvParse.parseSchema(versions, { prefix: 'TEST', sources: ['env'] })).toEqual({
+                version: '1.10',
+                code: '007',
+                build: 42
+            });
+        });
+
+        it('should keep raw strings equal to a string literal', () => {
+            process.env.TEST_AGENT = '007';
+            process.env.TEST_LEVEL = '1';
+            process.env.TEST_PORT = '8080';
+
+            const zodConfig = AutoEnvParse.parseSchema(
+                z.object({ agent: z.union([z.literal('007'), z.number()]), port: z.union([z.literal('auto'), z.number()]) }),
+                { prefix: 'TEST', sources: ['env'] }
+            );
+            const valibotConfig = AutoEnvParse.parseSchema(
+                v.object({ level: v.union([v.picklist(['1', '2']), v.number()]) }),
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect(zodConfig).toEqual({ agent: '007', port: 8080 });
+            expect(valibotConfig).toEqual({ level: '1' });
+        });
+
+        it('should coerce dates and bigints', () => {
+            process.env.TEST_SINCE = '2026-01-01';
+            process.env.TEST_COUNT = '10';
+
+            const zodConfig = AutoEnvParse.parseSchema(
+                z.object({ since: z.date(), count: z.bigint() }),
+                { prefix: 'TEST', sources: ['env'] }
+            );
+            const valibotConfig = AutoEnvParse.parseSchema(
+                v.object({ since: v.date(), count: v.bigint() }),
+                { prefix: 'TEST', sources: ['env'] }
+            );
+
+            expect(zodConfig).toEqual({ since: new Date('2026-01-01T00:00:00Z'), count: 10n });
+            expect(valibotConfig).toEqual({ since: new Date('2026-01-01T00:00:00Z'), count: 10n });
+        });
+
+        it('should pass malformed numbers to the schema for validation', () => {
+            process.env.TEST_PORT = '80abc';
+
+            expect(() => {
+                AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+            }).toThrow(/Invalid value for TEST_PORT/);
+        });
+
+        it('should support nested objects via dot-notation and JSON', () => {
+            const nested = z.object({
+                database: z.object({
+                    host: z.string(),
+                    pool: z.object({ max: z.number().default(10) })
+                }),
+                cache: z.object({ ttl: z.number() }).optional()
+            });
+
+            process.env.TEST_DATABASE = '{"host":"json.example.com","pool":{"max":5}}';
+            process.env.TEST_DATABASE_HOST = 'db.example.com';
+
+            const config = AutoEnvParse.parseSchema(nested, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config).toEqual({ database: { host: 'db.example.com', pool: { max: 5 } } });
+        });
+
+        it('should apply defaults of required nested objects without variables', () => {
+            const nested = z.object({
+                name: z.string().default('app'),
+                pool: z.object({ max: z.number().default(10) })
+            });
+
+            expect(AutoEnvParse.parseSchema(nested, { sources: ['env'] })).toEqual({ name: 'app', pool: { max: 10 } });
+        });
+
+        it('should support arrays via JSON and indexed dot-notation', () => {
+            const withArrays = z.object({
+                tags: z.array(z.string()).default([]),
+                servers: z.array(z.object({ host: z.string(), port: z.number().default(80) }))
+            });
+
+            process.env.TEST_TAGS = '["a","b"]';
+            process.env.TEST_SERVERS_0_HOST = 'a.com';
+            process.env.TEST_SERVERS_2_HOST = 'b.com';
+            process.env.TEST_SERVERS_2_PORT = '8080';
+
+            const config = AutoEnvParse.parseSchema(withArrays, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config).toEqual({
+                tags: ['a', 'b'],
+                servers: [{ host: 'a.com', port: 80 }, { host: 'b.com', port: 8080 }]
+            });
+        });
+
+        it('should support indexed variables for arrays of primitives', () => {
+            const withPorts = z.object({ ports: z.array(z.number()).default([3000]) });
+
+            process.env.TEST_PORTS_0 = '80';
+            process.env.TEST_PORTS_1 = '443';
+
+            expect(AutoEnvParse.parseSchema(withPorts, { prefix: 'TEST', sources: ['env'] })).toEqual({ ports: [80, 443] });
+        });
+
+        it('should support transforms and refinements', () => {
+            const refined = z.object({
+                origins: z.string().transform(val => val.split(',')),
+                password: z.string().min(8)
+            });
+
+            process.env.TEST_ORIGINS = 'a.com,b.com';
+            process.env.TEST_PASSWORD = 'short';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parseSchema(refined, { prefix: 'TEST', sources: ['env'] });
+            } catch (e) {
+                error = e;
+            }
+
+            expect((error as EnvValidationError).issues.map(i => i.envVar)).toEqual(['TEST_PASSWORD']);
+
+            process.env.TEST_PASSWORD = 'long-enough';
+            expect(AutoEnvParse.parseSchema(refined, { prefix: 'TEST', sources: ['env'] }).origins).toEqual(['a.com', 'b.com']);
+        });
+
+        it('should support Zod 3 schemas', () => {
+            const legacy = z3.object({
+                port: z3.number().default(3000),
+                debug: z3.boolean().optional(),
+                db: z3.object({ host: z3.string().default('localhost') })
+            });
+
+            process.env.TEST_PORT = '8080';
+            process.env.TEST_DEBUG = 'true';
+            process.env.TEST_DB_HOST = 'db.com';
+
+            expect(AutoEnvParse.parseSchema(legacy, { prefix: 'TEST', sources: ['env'] })).toEqual({
+                port: 8080, debug: true, db: { host: 'db.com' }
+            });
+        });
+    });
+
+    describe('Valibot', () => {
+        it('should derive env var names and coerce leaf types', () => {
+            const schema = v.object({
+                apiUrl: v.pipe(v.string(), v.url()),
+                retries: v.optional(v.number(), 3),
+                verbose: v.optional(v.boolean(), false),
+                level: v.picklist(['debug', 'info'])
+            });
+
+            process.env.TEST_API_URL = 'https://api.example.com';
+            process.env.TEST_VERBOSE = 'on';
+            process.env.TEST_LEVEL = 'info';
+
+            const config = AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config).toEqual({ apiUrl: 'https://api.example.com', retries: 3, verbose: true, level: 'info' });
+        });
+
+        it('should report validation issues', () => {
+            const schema = v.object({ apiUrl: v.pipe(v.string(), v.url()) });
+
+            process.env.TEST_API_URL = 'not a url';
+
+            expect(() => {
+                AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+            }).toThrow(/Invalid value for TEST_API_URL/);
+        });
+    });
+
+    describe('describeSchema()', () => {
+        const leaf = (types: LeafType[], optional = false, anyString = false, literals: string[] = []): SchemaNode =>
+            ({ kind: 'leaf', types: new Set(types), optional, anyString, literals: new Set(literals) });
+
+        enum Color { Red = 'red', Blue = 1 }
+
+        it('should describe every Zod 4 schema kind', () => {
+            const node = describeSchema(z.object({
+                lazy: z.lazy(() => z.number()),
+                color: z.enum(Color),
+                answer: z.literal(42),
+                union: z.union([z.boolean(), z.object({ a: z.string() })]),
+                record: z.record(z.string(), z.number()),
+                tuple: z.tuple([z.string()]),
+                map: z.map(z.string(), z.number()),
+                set: z.set(z.string()),
+                date: z.date().nullable().default(null),
+                count: z.bigint(),
+                list: z.array(z.string()).optional()
+            }));
+
+            expect(node).toEqual({
+                kind: 'object',
+                optional: false,
+                entries: {
+                    lazy: leaf(['number']),
+                    color: leaf(['string', 'number'], false, false, ['red', 'Blue']),
+                    answer: leaf(['number']),
+                    union: leaf(['boolean', 'json']),
+                    record: leaf(['json']),
+                    tuple: leaf(['json']),
+                    map: leaf(['json']),
+                    set: leaf(['json']),
+                    date: leaf(['date'], true),
+                    count: leaf(['bigint']),
+                    list: { kind: 'array', element: leaf(['string'], false, true), optional: true }
+                }
+            });
+        });
+
+        it('should describe every Zod 3 schema kind', () => {
+            const node = describeSchema(z3.object({
+                list: z3.array(z3.number()),
+                level: z3.enum(['debug', 'info']),
+                color: z3.nativeEnum(Color),
+                flag: z3.literal(true),
+                lazy: z3.lazy(() => z3.string()),
+                record: z3.record(z3.number()),
+                count: z3.bigint(),
+                since: z3.date(),
+                any: z3.any()
+            }));
+
+            expect(node).toEqual({
+                kind: 'object',
+                optional: false,
+                entries: {
+                    list: { kind: 'array', element: leaf(['number']), optional: false },
+                    level: leaf(['string'], false, false, ['debug', 'info']),
+                    color: leaf(['string', 'number'], false, false, ['red', 'Blue']),
+                    flag: leaf(['boolean']),
+                    lazy: leaf(['string'], false, true),
+                    record: leaf(['json']),
+                    count: leaf(['bigint']),
+                    since: leaf(['date']),
+                    any: leaf([])
+                }
+            });
+        });
+
+        it('should describe every Valibot schema kind', () => {
+            const node = describeSchema(v.object({
+                list: v.array(v.number()),
+                lazy: v.lazy(() => v.boolean()),
+                union: v.union([v.number(), v.literal('auto')]),
+                level: v.picklist(['debug', 'info']),
+                color: v.enum(Color),
+                answer: v.literal(42),
+                record: v.record(v.string(), v.number()),
+                tuple: v.tuple([v.string()]),
+                date: v.nullish(v.date()),
+                count: v.bigint()
+            }));
+
+            expect(node).toEqual({
+                kind: 'object',
+                optional: false,
+                entries: {
+                    list: { kind: 'array', element: leaf(['number']), optional: false },
+                    lazy: leaf(['boolean']),
+                    union: leaf(['number', 'string'], false, false, ['auto']),
+                    level: leaf(['string'], false, false, ['debug', 'info']),
+                    color: leaf(['string', 'number'], false, false, ['red', 'Blue']),
+                    answer: leaf(['number']),
+                    record: leaf(['json']),
+                    tuple: leaf(['json']),
+                    date: leaf(['date'], true),
+                    count: leaf(['bigint'])
+                }
+            });
+        });
+
+        it('should treat unrecognized schemas as untyped leaves', () => {
+            const custom = { '~standard': { version: 1, vendor: 'custom', validate: (value: unknown): { value: unknown } => ({ value }) } };
+            const foreignEntry = { _def: { typeName: 'ZodObject', shape: (): Record<string, object> => ({ other: {} }) } };
+
+            expect(describeSchema(custom)).toEqual(leaf([]));
+            expect(describeSchema(foreignEntry)).toEqual({ kind: 'object', entries: { other: leaf([]) }, optional: false });
+        });
+
+        it('should describe the type expected at a path', () => {
+            const node = describeSchema(z.object({
+                servers: z.array(z.object({ port: z.union([z.number(), z.string()]) })),
+                extra: z.any()
+            }));
+
+            expect(describeExpected(node, ['servers', '0', 'port'])).toBe('number | string');
+            expect(describeExpected(node, ['servers'])).toBe('array');
+            expect(describeExpected(node, ['servers', '0', 'port', 'x'])).toBe('valid value');
+            expect(describeExpected(node, ['missing'])).toBe('valid value');
+            expect(describeExpected(node, ['extra'])).toBe('valid value');
+        });
+    });
+
+    describe('Options', () => {
+        it('should read values from env files', () => {
+            const schema = z.object({ port: z.number() });
+            fs.writeFileSync(testEnvFile, 'TEST_PORT=9000\n');
+
+            const config = AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env', testEnvFile] });
+
+            expect(config.port).toBe(9000);
+        });
+
+        it('should validate the prefix', () => {
+            expect(() => {
+                AutoEnvParse.parseSchema(z.object({}), { prefix: 'test', sources: ['env'] });
+            }).toThrow('Invalid prefix "test". Use uppercase letters and numbers only.');
+        });
+
+        it('should reject asynchronous schemas', () => {
+            const schema = z.object({ name: z.string().refine(async () => true) });
+
+            process.env.TEST_NAME = 'x';
+
+            expect(() => {
+                AutoEnvParse.parseSchema(schema, { prefix: 'TEST', sources: ['env'] });
+            }).toThrow('Asynchronous schemas are not supported by parseSchema().');
+        });
+    });
+});
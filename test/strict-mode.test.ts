@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError, EnvValidationError } from '../src/errors';
+
+/**
+ * Tests for strict numeric and boolean coercion.
+ */
+describe('AutoEnvParse - Strict Mode', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    describe('coerceValue() with strict option', () => {
+        it('should accept valid numeric literals', () => {
+            expect(AutoEnvParse.coerceValue('42', 'number', { strict: true })).toBe(42);
+            expect(AutoEnvParse.coerceValue(' -3.5 ', 'number', { strict: true })).toBe(-3.5);
+            expect(AutoEnvParse.coerceValue('.5', 'number', { strict: true })).toBe(0.5);
+            expect(AutoEnvParse.coerceValue('1e3', 'number', { strict: true })).toBe(1000);
+            expect(AutoEnvParse.coerceValue('0x1F', 'number', { strict: true })).toBe(31);
+            expect(AutoEnvParse.coerceValue('-0x10', 'number', { strict: true })).toBe(-16);
+            expect(AutoEnvParse.coerceValue('0o17', 'number', { strict: true })).toBe(15);
+            expect(AutoEnvParse.coerceValue('0b101', 'number', { strict: true })).toBe(5);
+            expect(AutoEnvParse.coerceValue('1_000_000', 'number', { strict: true })).toBe(1000000);
+        });
+
+        it('should reject malformed numbers', () => {
+            for (const value of ['8080abc', 'abc', '', '   ', '1e999', 'Infinity', 'NaN', '1__0', '_1', '0x', '0b102', '1.2.3']) {
+                expect(() => AutoEnvParse.coerceValue(value, 'number', { strict: true }), value).toThrow(CoercionError);
+            }
+        });
+
+        it('should check integers and safe integers when requested', () => {
+            expect(() => AutoEnvParse.coerceValue('1.5', 'number', { strict: true, integer: true }))
+                .toThrow('Invalid integer value "1.5"');
+            expect(AutoEnvParse.coerceValue('2.0', 'number', { strict: true, integer: true })).toBe(2);
+            expect(() => AutoEnvParse.coerceValue('9007199254740993', 'number', { strict: true, safeInteger: true }))
+                .toThrow('Invalid safe integer value "9007199254740993"');
+            expect(AutoEnvParse.coerceValue('1.5', 'number', { strict: true, safeInteger: true })).toBe(1.5);
+        });
+
+        it('should reject unrecognized booleans', () => {
+            expect(AutoEnvParse.coerceValue('YES', 'boolean', { strict: true })).toBe(true);
+            expect(AutoEnvParse.coerceValue('off', 'boolean', { strict: true })).toBe(false);
+            expect(() => AutoEnvParse.coerceValue('maybe', 'boolean', { strict: true })).toThrow(CoercionError);
+            expect(() => AutoEnvParse.coerceValue('', 'boolean', { strict: true })).toThrow(CoercionError);
+        });
+
+        it('should keep loose behavior without strict', () => {
+            expect(AutoEnvParse.coerceValue('maybe', 'boolean')).toBe(false);
+            expect(AutoEnvParse.coerceValue('hello', 'string', { strict: true })).toBe('hello');
+        });
+    });
+
+    describe('parse() with strict option', () => {
+        it('should reject trailing garbage and unrecognized booleans as validation errors', () => {
+            const config = { port: 3000, debug: false, host: 'localhost' };
+
+            process.env.TEST_PORT = '8080abc';
+            process.env.TEST_DEBUG = 'maybe';
+            process.env.TEST_HOST = 'example.com';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parse(config, { prefix: 'TEST', sources: ['env'], strict: true });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(EnvValidationError);
+            expect((error as EnvValidationError).issues.map(i => i.message)).toEqual([
+                'Invalid number value for TEST_PORT: "8080abc"',
+                'Invalid boolean value for TEST_DEBUG: "maybe"'
+            ]);
+            expect(config.port).toBe(3000);
+            expect(config.debug).toBe(false);
+            expect(config.host).toBe('example.com');
+        });
+
+        it('should infer integer checks from integer defaults', () => {
+            const config = { port: 3000, ratio: 0.5 };
+
+            process.env.TEST_PORT = '80.5';
+            process.env.TEST_RATIO = '0.75';
+
+            const result = AutoEnvParse.safeParse(config, { prefix: 'TEST', sources: ['env'], strict: { integers: true } });
+
+            expect(result.issues).toEqual([expect.objectContaining({ envVar: 'TEST_PORT', expected: 'integer' })]);
+            expect(result.data.ratio).toBe(0.75);
+        });
+
+        it('should check safe integer ranges', () => {
+            process.env.TEST_ID = '9007199254740993';
+
+            const result = AutoEnvParse.safeParse({ id: 0 }, { prefix: 'TEST', sources: ['env'], strict: { safeIntegers: true } });
+
+            expect(result.issues[0].expected).toBe('safe integer');
+        });
+
+        it('should apply to nested objects and array elements', () => {
+            const config = {
+                database: { port: 5432 },
+                servers: [{ port: 80 }]
+            };
+
+            process.env.TEST_DATABASE_PORT = '5432x';
+            process.env.TEST_SERVERS_0_PORT = '0x1BB';
+
+            const result = AutoEnvParse.safeParse(config, { prefix: 'TEST', sources: ['env'], strict: true });
+
+            expect(result.issues.map(i => i.path)).toEqual(['database.port']);
+            expect(result.data.servers[0].port).toBe(443);
+        });
+
+        it('should parse loosely without strict', () => {
+            process.env.TEST_PORT = '8080abc';
+
+            const config = AutoEnvParse.parse({ port: 3000 }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config.port).toBe(8080);
+        });
+    });
+});
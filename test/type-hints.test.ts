@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+
+/**
+ * Tests for declared types of null and undefined defaults.
+ */
+describe('AutoEnvParse - Type Hints', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    it('should read null and undefined defaults as strings without a declared type', () => {
+        process.env.TEST_MAX_CONNECTIONS = '10';
+
+        const config = AutoEnvParse.parse({ maxConnections: null as number | null }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.maxConnections).toBe('10');
+    });
+
+    it('should coerce to the declared type', () => {
+        process.env.TEST_MAX_CONNECTIONS = '10';
+        process.env.TEST_VERBOSE = 'yes';
+        process.env.TEST_QUOTA = '0xff';
+        process.env.TEST_EXPIRES = '2026-06-01';
+        process.env.TEST_CALLBACK = 'https://hooks.example.com';
+        process.env.TEST_LABEL = '42';
+
+        const config = AutoEnvParse.parse(
+            {
+                maxConnections: null as number | null,
+                verbose: undefined as boolean | undefined,
+                quota: null as bigint | null,
+                expires: null as Date | null,
+                callback: null as URL | null,
+                label: null as string | null
+            },
+            {
+                prefix: 'TEST',
+                sources: ['env'],
+                types: { maxConnections: 'number', verbose: 'boolean', quota: 'bigint', expires: 'date', callback: 'url', label: 'string' }
+            }
+        );
+
+        expect(config.maxConnections).toBe(10);
+        expect(config.verbose).toBe(true);
+        expect(config.quota).toBe(255n);
+        expect(config.expires?.toISOString()).toBe('2026-06-01T00:00:00.000Z');
+        expect(config.callback).toBeInstanceOf(URL);
+        expect(config.label).toBe('42');
+    });
+
+    it('should support nested objects, class instances and array elements', () => {
+        class Pool {
+            idleTimeout: number | null = null;
+        }
+        process.env.TEST_DB_MAX = '20';
+        process.env.TEST_POOL_IDLE_TIMEOUT = '3000';
+        process.env.TEST_WORKERS_0_LIMIT = '5';
+        process.env.TEST_WORKERS_1_LIMIT = '7';
+
+        const config = AutoEnvParse.parse(
+            {
+                db: { max: null as number | null },
+                pool: new Pool(),
+                workers: [{ limit: null as number | null }]
+            },
+            {
+                prefix: 'TEST',
+                sources: ['env'],
+                types: { 'db.max': 'number', 'pool.idleTimeout': 'number', 'workers.*.limit': 'number' }
+            }
+        );
+
+        expect(config.db.max).toBe(20);
+        expect(config.pool.idleTimeout).toBe(3000);
+        expect(config.workers.map(w => w.limit)).toEqual([5, 7]);
+    });
+
+    it('should coerce declared types inside JSON values', () => {
+        process.env.TEST_DB = '{"max": "20", "min": null}';
+
+        const config = AutoEnvParse.parse(
+            { db: { max: null as number | null, min: 1 as number | null } },
+            { prefix: 'TEST', sources: ['env'], types: { 'db.max': 'number', 'db.min': 'number' } }
+        );
+
+        expect(config.db).toEqual({ max: 20, min: null });
+    });
+
+    it('should take precedence over the type of the default', () => {
+        process.env.TEST_PORT = '8080';
+
+        const config = AutoEnvParse.parse({ port: '3000' as string | number }, { prefix: 'TEST', sources: ['env'], types: { port: 'number' } });
+
+        expect(config.port).toBe(8080);
+    });
+
+    describe('null literal', () => {
+        it('should reset declared properties to null', () => {
+            process.env.TEST_MAX_CONNECTIONS = 'null';
+            process.env.TEST_DB_MAX = 'null';
+
+            const config = AutoEnvParse.parse(
+                { maxConnections: 100 as number | null, db: { max: 5 as number | null } },
+                { prefix: 'TEST', sources: ['env'], types: { maxConnections: 'number', 'db.max': 'number' } }
+            );
+
+            expect(config.maxConnections).toBeNull();
+            expect(config.db.max).toBeNull();
+        });
+
+        it('should keep "null" as a string for undeclared properties', () => {
+            process.env.TEST_NAME = 'null';
+
+            const config = AutoEnvParse.parse({ name: 'app' }, { prefix: 'TEST', sources: ['env'] });
+
+            expect(config.name).toBe('null');
+        });
+
+        it('should record the reset in provenance', () => {
+            process.env.TEST_LIMIT = 'null';
+
+            const { provenance } = AutoEnvParse.parse(
+                { limit: 10 as number | null },
+                { prefix: 'TEST', sources: ['env'], types: { limit: 'number' }, provenance: true }
+            );
+
+            expect(provenance.get('limit')).toMatchObject({ envVar: 'TEST_LIMIT', source: 'env', rawValue: 'null', applied: null });
+        });
+    });
+
+    it('should report values that do not match the declared type', () => {
+        process.env.TEST_MAX_CONNECTIONS = 'many';
+
+        const result = AutoEnvParse.safeParse(
+            { maxConnections: null as number | null },
+            { prefix: 'TEST', sources: ['env'], types: { maxConnections: 'number' }, errorMode: 'collect' }
+        );
+
+        expect(result.data.maxConnections).toBeNull();
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_MAX_CONNECTIONS',
+            path: 'maxConnections',
+            expected: 'number',
+            message: 'Invalid number value for TEST_MAX_CONNECTIONS: "many"'
+        });
+    });
+});
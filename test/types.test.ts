@@ -0,0 +1,148 @@
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach } from 'vitest';
+import { AutoEnvParse, ParseOptions } from '../src/autoEnvParse';
+import type { EnvVarName, EnvVarNames, SnakeCase } from '../src/types';
+
+/**
+ * Tests for type-level env var names and typed override helpers.
+ * Most assertions are checked by the type checker (npm run typecheck).
+ */
+describe('AutoEnvParse - Type-Level Names', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    describe('SnakeCase', () => {
+        it('should mirror toSnakeCase()', () => {
+            expectTypeOf<SnakeCase<'poolSize'>>().toEqualTypeOf<'pool_size'>();
+            expectTypeOf<SnakeCase<'host'>>().toEqualTypeOf<'host'>();
+            expectTypeOf<SnakeCase<'APIKey'>>().toEqualTypeOf<'api_key'>();
+            expectTypeOf<SnakeCase<'HTTPSPort'>>().toEqualTypeOf<'https_port'>();
+            expectTypeOf<SnakeCase<'XMLHttpRequest'>>().toEqualTypeOf<'xml_http_request'>();
+            expectTypeOf<SnakeCase<'v2Api'>>().toEqualTypeOf<'v2api'>();
+
+            expect(AutoEnvParse.toSnakeCase('XMLHttpRequest')).toBe('xml_http_request');
+            expect(AutoEnvParse.toSnakeCase('v2Api')).toBe('v2api');
+        });
+    });
+
+    describe('EnvVarName', () => {
+        it('should add the prefix', () => {
+            expectTypeOf<EnvVarName<'maxSize', 'DB'>>().toEqualTypeOf<'DB_MAX_SIZE'>();
+            expectTypeOf<EnvVarName<'maxSize'>>().toEqualTypeOf<'MAX_SIZE'>();
+        });
+    });
+
+    describe('EnvVarNames', () => {
+        it('should list names of nested properties', () => {
+            type Config = { host: string; port: number; pool: { maxSize: number } };
+
+            expectTypeOf<EnvVarNames<Config, 'DB'>>().toEqualTypeOf<'DB_HOST' | 'DB_PORT' | 'DB_POOL_MAX_SIZE'>();
+            expectTypeOf<EnvVarNames<Config>>().toEqualTypeOf<'HOST' | 'PORT' | 'POOL_MAX_SIZE'>();
+        });
+
+        it('should include array and array element names', () => {
+            type Config = { tags: string[]; servers: Array<{ host: string; tls: { enabled: boolean } }>; patterns: RegExp[] };
+
+            type Names = EnvVarNames<Config, 'APP'>;
+
+            expectTypeOf<Names>().toEqualTypeOf<
+                'APP_TAGS' | `APP_TAGS_${number}` | 'APP_SERVERS' | `APP_SERVERS_${number}_HOST` | `APP_SERVERS_${number}_TLS_ENABLED` | 'APP_PATTERNS' | `APP_PATTERNS_${number}`
+            >();
+            expectTypeOf<'APP_SERVERS_2_HOST'>().toMatchTypeOf<Names>();
+            expectTypeOf<'APP_TAGS_0'>().toMatchTypeOf<Names>();
+        });
+
+        it('should list URL component names', () => {
+            type Config = { apiUrl: URL; releaseDate: Date };
+
+            expectTypeOf<EnvVarNames<Config, 'APP'>>().toEqualTypeOf<
+                'APP_API_URL' | 'APP_API_URL_PROTOCOL' | 'APP_API_URL_HOST' | 'APP_API_URL_PORT' | 'APP_API_URL_PATHNAME' | 'APP_RELEASE_DATE'
+            >();
+        });
+
+        it('should skip class methods', () => {
+            class ServerConfig {
+                host = '0.0.0.0';
+                getUrl(): string {
+                    return this.host;
+                }
+            }
+
+            expectTypeOf<EnvVarNames<ServerConfig, 'SERVER'>>().toEqualTypeOf<'SERVER_HOST'>();
+        });
+    });
+
+    describe('typed overrides', () => {
+        it('should accept an override record keyed by property names', () => {
+            process.env.TEST_ENV = 'prod';
+            process.env.TEST_TIMEOUT = '5';
+
+            const config = AutoEnvParse.parse({ env: 'dev' as 'dev' | 'prod', timeout: 1000 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: {
+                    env: AutoEnvParse.enumValidator('env', ['dev', 'prod']),
+                    timeout: AutoEnvParse.transform('timeout', (val) => Number(val) * 1000)
+                }
+            });
+
+            expect(config).toEqual({ env: 'prod', timeout: 5000 });
+        });
+
+        it('should reject unknown keys and mistyped values', () => {
+            type Config = { env: 'dev' | 'prod'; timeout: number };
+
+            // @ts-expect-error - 'enviroment' is not a property
+            AutoEnvParse.enumValidator<Config>('enviroment', ['dev']);
+
+            // @ts-expect-error - 'qa' is not a valid value of env
+            AutoEnvParse.enumValidator<Config>('env', ['dev', 'qa']);
+
+            // @ts-expect-error - timeout must be a number
+            AutoEnvParse.transform<Config>('timeout', (val) => val);
+
+            // @ts-expect-error - 'timout' is not a property
+            AutoEnvParse.validate<Config>('timout');
+
+            const options: ParseOptions<Config> = {
+                // @ts-expect-error - 'enviroment' is not a property
+                overrides: { enviroment: AutoEnvParse.enumValidator('env', ['dev']) }
+            };
+            expect(options).toBeDefined();
+        });
+
+        it('should keep working with untyped Maps', () => {
+            process.env.TEST_ENV = 'prod';
+
+            const config = AutoEnvParse.parse({ env: 'dev' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])]])
+            });
+
+            expect(config.env).toBe('prod');
+        });
+
+        it('should skip undefined entries in override records', () => {
+            process.env.TEST_PORT = '8080';
+
+            const config = AutoEnvParse.parse({ port: 3000 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: { port: undefined }
+            });
+
+            expect(config.port).toBe(8080);
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { AutoEnvParse } from '../src/autoEnvParse';
+
+/**
+ * Tests for the unknownVariables option.
+ */
+describe('AutoEnvParse - Unknown Variables', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    it('should ignore unknown variables by default', () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        process.env.TEST_HSOT = 'prod';
+
+        const config = AutoEnvParse.parse({ host: 'localhost' }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.host).toBe('localhost');
+        expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should warn with a suggestion in warn mode', () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        process.env.TEST_HSOT = 'prod';
+
+        AutoEnvParse.parse({ host: 'localhost', port: 5432 }, { prefix: 'TEST', sources: ['env'], unknownVariables: 'warn' });
+
+        expect(warnSpy).toHaveBeenCalledWith('Warning: Unknown environment variable TEST_HSOT (did you mean TEST_HOST?)');
+    });
+
+    it('should only warn even when errors are collected', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        process.env.TEST_HSOT = 'prod';
+
+        const result = AutoEnvParse.safeParse({ host: 'localhost' }, { prefix: 'TEST', sources: ['env'], unknownVariables: 'warn' });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('should report validation errors in error mode', () => {
+        process.env.TEST_HSOT = 'prod';
+        process.env.TEST_UNRELATED = 'x';
+
+        const result = AutoEnvParse.safeParse({ host: 'localhost' }, { prefix: 'TEST', sources: ['env'], unknownVariables: 'error' });
+
+        expect(result.issues).toEqual([
+            {
+                envVar: 'TEST_HSOT',
+                path: '',
+                value: 'prod',
+                expected: 'TEST_HOST',
+                source: 'env',
+                message: 'Unknown environment variable TEST_HSOT (did you mean TEST_HOST?)'
+            },
+            expect.objectContaining({
+                envVar: 'TEST_UNRELATED',
+                expected: 'known variable',
+                message: 'Unknown environment variable TEST_UNRELATED'
+            })
+        ]);
+    });
+
+    it('should throw from parse() in error mode', () => {
+        process.env.TEST_PROT = '1';
+
+        expect(() => {
+            AutoEnvParse.parse({ port: 3000 }, { prefix: 'TEST', sources: ['env'], unknownVariables: 'error' });
+        }).toThrow('Unknown environment variable TEST_PROT (did you mean TEST_PORT?)');
+    });
+
+    it('should accept nested, JSON and array variables', () => {
+        process.env.TEST_DATABASE = '{"host":"x"}';
+        process.env.TEST_DATABASE_POOL_MAX = '5';
+        process.env.TEST_SERVERS_0_HOST = 'a.com';
+        process.env.TEST_SERVERS_1_PORT = '81';
+        process.env.TEST_TAGS = '["a"]';
+        process.env.TEST_ENV = 'prod';
+
+        const result = AutoEnvParse.safeParse({
+            database: { host: 'localhost', pool: { max: 10 } },
+            servers: [{ host: 'localhost', port: 80 }],
+            tags: ['x'],
+            env: 'dev'
+        }, {
+            prefix: 'TEST',
+            sources: ['env'],
+            unknownVariables: 'error',
+            overrides: new Map([['env', AutoEnvParse.enumValidator('env', ['dev', 'prod'])]])
+        });
+
+        expect(result.issues).toEqual([]);
+    });
+
+    it('should suggest names inside array elements', () => {
+        process.env.TEST_SERVERS_0_HSOT = 'a.com';
+
+        const result = AutoEnvParse.safeParse({ servers: [{ host: 'localhost' }] }, {
+            prefix: 'TEST',
+            sources: ['env'],
+            unknownVariables: 'error'
+        });
+
+        expect(result.issues.map(i => i.message)).toEqual([
+            'Unknown environment variable TEST_SERVERS_0_HSOT (did you mean TEST_SERVERS_0_HOST?)'
+        ]);
+    });
+
+    it('should suggest names of nested properties', () => {
+        process.env.TEST_DATABASE_POOL_MXA = '5';
+
+        const result = AutoEnvParse.safeParse({ database: { pool: { max: 10 } } }, {
+            prefix: 'TEST',
+            sources: ['env'],
+            unknownVariables: 'error'
+        });
+
+        expect(result.issues[0].expected).toBe('TEST_DATABASE_POOL_MAX');
+    });
+
+    it('should skip the check without a prefix', () => {
+        const result = AutoEnvParse.safeParse({ host: 'localhost' }, { sources: ['env'], unknownVariables: 'error' });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('should check schema-based parsing too', () => {
+        process.env.TEST_PORT = '80';
+        process.env.TEST_HOTS = 'x';
+
+        expect(() => {
+            AutoEnvParse.parseSchema(z.object({ host: z.string().optional(), port: z.number() }), {
+                prefix: 'TEST',
+                sources: ['env'],
+                unknownVariables: 'error'
+            });
+        }).toThrow('Unknown environment variable TEST_HOTS (did you mean TEST_HOST?)');
+    });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { CoercionError } from '../src/errors';
+
+/**
+ * Tests for URL-typed properties.
+ */
+describe('AutoEnvParse - URLs', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('parseUrl()', () => {
+        it('should parse absolute URLs', () => {
+            expect(AutoEnvParse.parseUrl('https://api.example.com/v1').href).toBe('https://api.example.com/v1');
+        });
+
+        it('should reject relative and malformed URLs', () => {
+            for (const value of ['', 'api.example.com', '/v1', 'http://']) {
+                expect(() => AutoEnvParse.parseUrl(value)).toThrow(CoercionError);
+            }
+        });
+    });
+
+    it('should parse the whole URL from its variable', () => {
+        process.env.TEST_API_URL = 'https://api.example.com/v2';
+
+        const config = AutoEnvParse.parse({ apiUrl: new URL('http://localhost:8080') }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.apiUrl).toBeInstanceOf(URL);
+        expect(config.apiUrl.href).toBe('https://api.example.com/v2');
+    });
+
+    it('should not mutate the default URL', () => {
+        const defaultUrl = new URL('http://localhost:8080');
+        process.env.TEST_API_URL_PORT = '9090';
+
+        const config = AutoEnvParse.parse({ apiUrl: defaultUrl }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.apiUrl.port).toBe('9090');
+        expect(defaultUrl.href).toBe('http://localhost:8080/');
+    });
+
+    it('should patch individual components', () => {
+        process.env.TEST_API_URL_PROTOCOL = 'https';
+        process.env.TEST_API_URL_HOST = 'api.example.com';
+        process.env.TEST_API_URL_PORT = '8443';
+        process.env.TEST_API_URL_PATHNAME = '/v2';
+
+        const config = AutoEnvParse.parse({ apiUrl: new URL('http://localhost:8080/v1') }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.apiUrl.href).toBe('https://api.example.com:8443/v2');
+    });
+
+    it('should apply components on top of the whole URL', () => {
+        process.env.TEST_API_URL = 'https://api.example.com/v1';
+        process.env.TEST_API_URL_PATHNAME = '/v2';
+
+        const config = AutoEnvParse.parse({ apiUrl: new URL('http://localhost') }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.apiUrl.href).toBe('https://api.example.com/v2');
+    });
+
+    it('should report malformed URLs with the env var name', () => {
+        process.env.TEST_API_URL = 'not a url';
+
+        const result = AutoEnvParse.safeParse({ apiUrl: new URL('http://localhost') }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.success).toBe(false);
+        expect(result.data.apiUrl.href).toBe('http://localhost/');
+        expect(result.issues[0]).toMatchObject({
+            envVar: 'TEST_API_URL',
+            path: 'apiUrl',
+            value: 'not a url',
+            expected: 'URL',
+            message: 'Invalid URL value for TEST_API_URL: "not a url"'
+        });
+    });
+
+    it('should report invalid components', () => {
+        process.env.TEST_API_URL_PORT = '99999';
+        process.env.TEST_API_URL_HOST = 'bad host/path';
+        process.env.TEST_API_URL_PROTOCOL = 'mailto';
+
+        const result = AutoEnvParse.safeParse({ apiUrl: new URL('http://localhost:8080') }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.data.apiUrl.href).toBe('http://localhost:8080/');
+        expect(result.issues.map(issue => issue.message)).toEqual([
+            'Invalid URL protocol value for TEST_API_URL_PROTOCOL: "mailto"',
+            'Invalid URL host value for TEST_API_URL_HOST: "bad host/path"',
+            'Invalid URL port value for TEST_API_URL_PORT: "99999"'
+        ]);
+    });
+
+    it.each([
+        ['PROTOCOL', '1http'],
+        ['PROTOCOL', 'ht tp'],
+        ['HOST', 'api.example.com/'],
+        ['HOST', 'api.example.com?debug=1'],
+        ['HOST', 'admin@api.example.com'],
+        ['HOST', 'api.example.com#top'],
+        ['HOST', '[::1']
+    ])('should report the invalid %s component %j and keep the default', (component, value) => {
+        process.env[`TEST_API_URL_${component}`] = value;
+
+        const result = AutoEnvParse.safeParse({ apiUrl: new URL('http://localhost:8080') }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(result.data.apiUrl.href).toBe('http://localhost:8080/');
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues[0]).toMatchObject({
+            envVar: `TEST_API_URL_${component}`,
+            value,
+            expected: `URL ${component.toLowerCase()}`
+        });
+    });
+
+    it('should parse URLs in nested objects, class instances and array elements', () => {
+        class Upstream {
+            url = new URL('http://localhost:3000');
+        }
+        process.env.TEST_SERVICES_AUTH_PORT = '4000';
+        process.env.TEST_UPSTREAM_URL_HOST = 'upstream.internal';
+        process.env.TEST_MIRRORS_0_URL = 'https://mirror-a.example.com';
+        process.env.TEST_MIRRORS_1_URL_HOST = 'mirror-b.example.com';
+
+        const config = AutoEnvParse.parse(
+            {
+                services: { auth: new URL('http://localhost:3000') },
+                upstream: new Upstream(),
+                mirrors: [{ url: new URL('http://localhost') }]
+            },
+            { prefix: 'TEST', sources: ['env'] }
+        );
+
+        expect(config.services.auth.href).toBe('http://localhost:4000/');
+        expect(config.upstream.url.href).toBe('http://upstream.internal:3000/');
+        expect(config.mirrors.map(m => m.url.href)).toEqual(['https://mirror-a.example.com/', 'http://mirror-b.example.com/']);
+    });
+
+    it('should parse URLs inside JSON values', () => {
+        process.env.TEST_MIRRORS = '[{"url":"https://a.example.com"}]';
+
+        const config = AutoEnvParse.parse({ mirrors: [{ url: new URL('http://localhost') }] }, { prefix: 'TEST', sources: ['env'] });
+
+        expect(config.mirrors[0].url).toBeInstanceOf(URL);
+        expect(config.mirrors[0].url.host).toBe('a.example.com');
+    });
+
+    it('should count component variables as known and supplied', () => {
+        process.env.TEST_API_URL_HOST = 'api.example.com';
+
+        const result = AutoEnvParse.safeParse(
+            { apiUrl: new URL('http://localhost') },
+            { prefix: 'TEST', sources: ['env'], required: ['apiUrl'], unknownVariables: 'error' }
+        );
+
+        expect(result.issues).toEqual([]);
+    });
+});
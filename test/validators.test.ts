@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoEnvParse } from '../src/autoEnvParse';
+import { EnvValidationError } from '../src/errors';
+
+/**
+ * Tests for AutoEnvParse.validators and AutoEnvParse.validate().
+ */
+describe('AutoEnvParse - Validators', () => {
+    const originalEnv = { ...process.env };
+    const { validators } = AutoEnvParse;
+
+    beforeEach(() => {
+        for (const key in process.env) {
+            if (key.startsWith('TEST_')) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        vi.restoreAllMocks();
+    });
+
+    describe('rules', () => {
+        it('range() should accept numbers within inclusive bounds', () => {
+            const rule = validators.range(1, 10);
+            expect(rule(1)).toBeUndefined();
+            expect(rule('10')).toBeUndefined();
+            expect(rule(11)).toBe('between 1 and 10');
+            expect(rule('abc')).toBe('between 1 and 10');
+        });
+
+        it('port() should accept integers between 1 and 65535', () => {
+            const rule = validators.port();
+            expect(rule(8080)).toBeUndefined();
+            expect(rule(0)).toBe('a port number (1-65535)');
+            expect(rule(65536)).toBe('a port number (1-65535)');
+            expect(rule(80.5)).toBe('a port number (1-65535)');
+        });
+
+        it('integer() should reject fractions', () => {
+            const rule = validators.integer();
+            expect(rule(3)).toBeUndefined();
+            expect(rule('3')).toBeUndefined();
+            expect(rule(3.5)).toBe('an integer');
+            expect(rule('')).toBe('an integer');
+        });
+
+        it('url() should check format and allowed protocols', () => {
+            expect(validators.url()('postgres://db:5432')).toBeUndefined();
+            expect(validators.url()('not a url')).toBe('a valid URL');
+
+            const rule = validators.url({ protocols: ['http', 'https:'] });
+            expect(rule('https://example.com')).toBeUndefined();
+            expect(rule('ftp://example.com')).toBe('a URL with protocol http or https');
+        });
+
+        it('email() should check for local@domain.tld', () => {
+            const rule = validators.email();
+            expect(rule('admin@example.com')).toBeUndefined();
+            expect(rule('admin@localhost')).toBe('a valid email address');
+            expect(rule('admin example.com')).toBe('a valid email address');
+        });
+
+        it('pattern() should match regular expressions', () => {
+            expect(validators.pattern(/^v\d+$/)('v2')).toBeUndefined();
+            expect(validators.pattern(/^v\d+$/)('2')).toBe('matching /^v\\d+$/');
+            expect(validators.pattern(/^v\d+$/, 'a version like v1')('2')).toBe('a version like v1');
+        });
+
+        it('pattern() should give consistent results for global patterns', () => {
+            const rule = validators.pattern(/a/g);
+            expect(rule('a')).toBeUndefined();
+            expect(rule('a')).toBeUndefined();
+        });
+
+        it('minLength() and maxLength() should check string length', () => {
+            expect(validators.minLength(3)('abc')).toBeUndefined();
+            expect(validators.minLength(3)('ab')).toBe('at least 3 characters long');
+            expect(validators.maxLength(3)('abc')).toBeUndefined();
+            expect(validators.maxLength(3)('abcd')).toBe('at most 3 characters long');
+        });
+
+        it('oneOf() should check allowed values', () => {
+            expect(validators.oneOf(['a', 'b'])('a')).toBeUndefined();
+            expect(validators.oneOf(['a', 'b'])('A')).toBe('one of: a, b');
+            expect(validators.oneOf(['a', 'b'], { caseSensitive: false })('A')).toBeUndefined();
+            expect(validators.oneOf([1, 2])(2)).toBeUndefined();
+        });
+
+        it('nonEmpty() should reject empty and whitespace-only values', () => {
+            expect(validators.nonEmpty()('x')).toBeUndefined();
+            expect(validators.nonEmpty()('  ')).toBe('non-empty');
+        });
+    });
+
+    describe('validate()', () => {
+        it('should coerce to the default type and apply valid values', () => {
+            process.env.TEST_PORT = '8080';
+            process.env.TEST_API_URL = 'https://api.example.com';
+
+            const config = AutoEnvParse.parse({ port: 3000, apiUrl: '' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([
+                    ['port', AutoEnvParse.validate('port', validators.port())],
+                    ['apiUrl', AutoEnvParse.validate('apiUrl', validators.url({ protocols: ['https'] }))]
+                ])
+            });
+
+            expect(config.port).toBe(8080);
+            expect(config.apiUrl).toBe('https://api.example.com');
+        });
+
+        it('should keep the default when the variable is not set', () => {
+            const config = AutoEnvParse.parse({ name: 'app' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([['name', AutoEnvParse.validate('name', validators.minLength(10))]])
+            });
+
+            expect(config.name).toBe('app');
+        });
+
+        it('should report failures through the aggregated error', () => {
+            process.env.TEST_PORT = '70000';
+            process.env.TEST_EMAIL = 'nobody';
+
+            let error: unknown;
+            try {
+                AutoEnvParse.parse({ port: 3000, email: 'admin@example.com' }, {
+                    prefix: 'TEST',
+                    sources: ['env'],
+                    overrides: new Map([
+                        ['port', AutoEnvParse.validate('port', validators.port())],
+                        ['email', AutoEnvParse.validate('email', validators.email())]
+                    ])
+                });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(EnvValidationError);
+            expect((error as EnvValidationError).issues).toEqual([
+                {
+                    envVar: 'TEST_PORT',
+                    path: 'port',
+                    value: '70000',
+                    expected: 'a port number (1-65535)',
+                    source: 'env',
+                    message: 'Invalid value for TEST_PORT: "70000". Must be a port number (1-65535)'
+                },
+                expect.objectContaining({ envVar: 'TEST_EMAIL', expected: 'a valid email address' })
+            ]);
+        });
+
+        it('should reject malformed numbers before running rules', () => {
+            process.env.TEST_PORT = '8080abc';
+
+            const result = AutoEnvParse.safeParse({ port: 3000 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([['port', AutoEnvParse.validate('port', validators.port())]])
+            });
+
+            expect(result.data.port).toBe(3000);
+            expect(result.issues[0]).toMatchObject({ expected: 'number', message: 'Invalid number value for TEST_PORT: "8080abc"' });
+        });
+
+        it('should compose rules and report the first failure', () => {
+            process.env.TEST_WORKERS = '2.5';
+
+            const result = AutoEnvParse.safeParse({ workers: 4 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([['workers', AutoEnvParse.validate('workers', validators.integer(), validators.range(1, 2))]])
+            });
+
+            expect(result.data.workers).toBe(4);
+            expect(result.issues.map(i => i.expected)).toEqual(['an integer']);
+        });
+
+        it('should reject empty values with nonEmpty()', () => {
+            process.env.TEST_NAME = '';
+
+            const result = AutoEnvParse.safeParse({ name: 'app' }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([['name', AutoEnvParse.validate('name', validators.nonEmpty())]])
+            });
+
+            expect(result.data.name).toBe('app');
+            expect(result.issues[0].message).toBe('Invalid value for TEST_NAME: "". Must be non-empty');
+        });
+
+        it('should only warn in warn mode', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            process.env.TEST_PORT = '0';
+
+            const config = AutoEnvParse.parse({ port: 3000 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                errorMode: 'warn',
+                overrides: new Map([['port', AutoEnvParse.validate('port', validators.port())]])
+            });
+
+            expect(config.port).toBe(3000);
+            expect(warnSpy).toHaveBeenCalledWith('Warning: Invalid value for TEST_PORT: "0". Must be a port number (1-65535)');
+        });
+
+        it('should throw when called without a context', () => {
+            process.env.TEST_PORT = '0';
+            const config = { port: 3000 };
+
+            expect(() => {
+                AutoEnvParse.validate<typeof config>('port', validators.port())(config, 'TEST_PORT');
+            }).toThrow('Invalid value for TEST_PORT: "0". Must be a port number (1-65535)');
+        });
+
+        it('should rethrow errors other than coercion errors', () => {
+            process.env.TEST_PORT = '8080';
+            const config = { port: 3000 };
+            vi.spyOn(AutoEnvParse, 'coerceValue').mockImplementation(() => {
+                throw new TypeError('unexpected');
+            });
+
+            expect(() => {
+                AutoEnvParse.validate<typeof config>('port', validators.port())(config, 'TEST_PORT');
+            }).toThrow(TypeError);
+            expect(config.port).toBe(3000);
+        });
+    });
+
+    describe('transform() with rules', () => {
+        it('should validate the transformed value', () => {
+            process.env.TEST_TIMEOUT = '90';
+
+            const result = AutoEnvParse.safeParse({ timeout: 5000 }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([
+                    ['timeout', AutoEnvParse.transform('timeout', (val) => Number(val) * 1000, validators.range(1000, 60000))]
+                ])
+            });
+
+            expect(result.data.timeout).toBe(5000);
+            expect(result.issues[0]).toMatchObject({
+                envVar: 'TEST_TIMEOUT',
+                value: '90',
+                expected: 'between 1000 and 60000'
+            });
+        });
+
+        it('should assign the transformed value when all rules pass', () => {
+            process.env.TEST_HOSTS = 'a.com, b.com';
+
+            const config = AutoEnvParse.parse({ hosts: [] as string[] }, {
+                prefix: 'TEST',
+                sources: ['env'],
+                overrides: new Map([
+                    ['hosts', AutoEnvParse.transform('hosts', (val) => val.split(',').map(h => h.trim()),
+                        (value) => (value as string[]).length <= 3 ? undefined : 'at most 3 hosts'
+                    )]
+                ])
+            });
+
+            expect(config.hosts).toEqual(['a.com', 'b.com']);
+        });
+    });
+});